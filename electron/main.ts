@@ -1,10 +1,27 @@
-import { app, BrowserWindow, ipcMain, dialog, Menu } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, Menu, shell } from 'electron';
 import { fileURLToPath } from 'node:url';
 import path from 'node:path';
-import { tiktokService, GiftEvent } from './services/tiktok';
+import { EventEmitter } from 'node:events';
+import { tiktokService, toRoomKey, DedupStats, BattleEvent, GiftEvent, ChatEvent, MemberEvent, FollowEvent, ShareEvent, LikeEvent, SubscribeEvent, RoomInfo, ReconnectState, ConnectionStatus } from './services/tiktok';
 import { overlayServer } from './services/overlay';
-import { storageService } from './services/storage';
+import { storageService, defaultGiftRepeat, AudioFileEntry, CachedGift, GiftAudioMapping, GiftRepeatSettings, MappingProfile, DiamondTier, ChatCommand, EventAudioMapping, EventTriggerType, LikeMilestoneSettings, ViewerMilestoneSettings, VipEntrance, ReconnectSettings, UserAccessEntry, UserAccessSettings, DedupSettings, GiftCooldownSettings, QueueLimitSettings, GiftTtsSettings, ChatTtsSettings, WordFilterSettings, TtsVoiceSettings, LeaderboardSettings, DiamondGoalSettings } from './services/storage';
 import { audioLibraryService } from './services/audioLibrary';
+import { chatCommandService } from './services/chatCommands';
+import { likeMilestoneService, LikeMilestone } from './services/likeMilestones';
+import { viewerMilestoneService, ViewerMilestone } from './services/viewerMilestones';
+import { vipEntranceService } from './services/vipEntrances';
+import { sessionRecorderService } from './services/sessionRecorder';
+import { sessionReplayService, ReplayOptions, ReplayState } from './services/sessionReplay';
+import { leaderboardService, LeaderboardScope } from './services/leaderboard';
+import { diamondGoalService, DiamondGoalCompletion } from './services/diamondGoal';
+import { battleService } from './services/battles';
+import { userAccessService } from './services/userAccess';
+import { giftCooldownService } from './services/giftCooldowns';
+import { chatTtsService, ChatTtsSkipReason } from './services/chatTts';
+import { wordFilterService } from './services/wordFilter';
+import { giftCatalogService } from './services/giftCatalog';
+import { giftImageService } from './services/giftImages';
+import { simulatorService, SIMULATOR_ROOM, LOAD_PROFILES, LoadProfile, SimulatedStep, SimulatorState } from './services/simulator';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -59,132 +76,655 @@ function safeSend(channel: string, ...args: unknown[]) {
   }
 }
 
-function setupTikTokEvents() {
-  tiktokService.on('status', (status) => {
-    safeSend('tiktok:status', status);
-  });
+// Picks a random file from a playlist
+function pickRandomAudio(audioFiles: AudioFileEntry[]): string | undefined {
+  if (audioFiles.length === 0) return undefined;
+  return audioFiles[Math.floor(Math.random() * audioFiles.length)].path;
+}
 
-  tiktokService.on('connected', (info) => {
-    safeSend('tiktok:connected', info);
-  });
+// Local copy served by the overlay server when cached, otherwise TikTok's CDN
+function giftImageUrl(giftId: string | number, remoteUrl: string): string {
+  const filename = giftImageService.getFilename(giftId);
+  return filename ? `${overlayServer.getUrl()}/gift-images/${filename}` : remoteUrl;
+}
 
-  tiktokService.on('disconnected', () => {
-    safeSend('tiktok:disconnected');
-  });
+function withLocalImages(gifts: CachedGift[]): CachedGift[] {
+  return gifts.map(gift => ({ ...gift, imageUrl: giftImageUrl(gift.id, gift.imageUrl) }));
+}
 
-  tiktokService.on('error', (error) => {
-    safeSend('tiktok:error', error);
+// Downloads missing gift images in the background and pushes the catalog again once any arrive
+function cacheGiftImages(gifts: CachedGift[]) {
+  giftImageService.cacheGifts(gifts).then((saved) => {
+    if (saved > 0) safeSend('tiktok:giftsUpdated', withLocalImages(storageService.getCachedGifts()));
   });
+}
+
+// Runs viewer-provided text through the word filter on its way to the overlay; undefined means drop it
+function moderate(text: string): string | undefined {
+  const result = wordFilterService.apply(text);
+  if (result.matches.length === 0) return text;
+
+  console.log(`[WordFilter] ${result.blocked ? 'Dropped' : 'Masked'} text matching ${result.matches.join(', ')}`);
+  return result.blocked ? undefined : result.text;
+}
 
+// Queues a library file on the overlay with its own volume scaled by the global volume
+function queueLibraryAudio(room: string, triggerId: string, label: string, nickname: string, audioPath: string) {
+  const filename = audioPath.split(/[/\\]/).pop() || '';
+  const audioId = filename.replace(/\.[^/.]+$/, "");
+  const volume = storageService.getAudioVolume(audioId) * storageService.getSettings().globalVolume;
+  const duration = storageService.getAudioDuration(audioId) || 0;
 
-  tiktokService.on('giftFinal', (event: GiftEvent) => {
+  if (!overlayServer.playAudio(triggerId, label, moderate(nickname) ?? '', audioPath, volume, duration)) return;
+  sessionRecorderService.recordAudio(room, { triggerId, label, nickname, audioPath });
+}
+
+// Blocked users, and unlisted ones in allowlist-only mode, still show up in the log but never play a sound
+function canTrigger(event: { userId: string; username: string; nickname: string; isModerator?: boolean }, trigger: string): boolean {
+  const denial = userAccessService.check(event);
+  if (!denial) return true;
+
+  console.log(`[Access] ${trigger} from ${event.nickname} ignored (${denial === 'blocked' ? 'blocked' : 'not on the allowlist'})`);
+  return false;
+}
+
+function handleChatCommand(event: ChatEvent) {
+  if (!canTrigger(event, 'Chat command')) return;
+
+  const command = chatCommandService.match(event);
+  if (!command) return;
 
-    const giftName = event.giftName === 'Gift'
-      ? storageService.getGiftName(event.giftId) || event.giftName
-      : event.giftName;
+  const audioPath = pickRandomAudio(command.audioFiles);
+  if (!audioPath) return;
+
+  console.log(`[ChatCommand] ${event.nickname} triggered ${command.command} - File: ${audioPath.split(/[/\\]/).pop()}`);
+  queueLibraryAudio(event.room, `chat:${command.id}`, command.command, event.nickname, audioPath);
+  safeSend('chat:commandTriggered', { commandId: command.id, command: command.command, userId: event.userId, username: event.username, nickname: event.nickname });
+}
+
+const CHAT_TTS_SKIP_LABELS: Record<ChatTtsSkipReason, string> = {
+  audience: 'not in the audience',
+  command: 'command',
+  link: 'link',
+  tooLong: 'too long',
+  backlog: 'backlog full',
+};
+
+// Reads a chat message aloud on the overlay when it passes the chat TTS filters
+function handleChatTts(event: ChatEvent) {
+  const settings = storageService.getChatTts();
+  if (!settings.enabled || !event.message.trim()) return;
+  if (!canTrigger(event, 'Chat TTS')) return;
+
+  const skip = chatTtsService.check(event, settings);
+  if (skip) {
+    // Audience misses are the normal case, so only the other skips are worth a log line
+    if (skip !== 'audience') {
+      console.log(`[ChatTTS] Skipped message from ${event.nickname} (${CHAT_TTS_SKIP_LABELS[skip]})`);
+    }
+    return;
+  }
 
-    const enrichedEvent = { ...event, giftName };
+  const text = moderate(fillTemplate(settings.template, { nickname: event.nickname, message: event.message.trim() }));
+  if (text === undefined) return;
 
+  const id = speakOnOverlay(`chat-tts:${event.userId}`, event.nickname, text, settings.voice);
+  if (!id) return;
 
+  chatTtsService.add({ id, room: event.room, nickname: event.nickname, message: event.message.trim(), queuedAt: Date.now() });
+  publishChatTts();
+}
+
+function publishChatTts() {
+  safeSend('chatTts:pending', chatTtsService.getPending());
+}
+
+const EVENT_TRIGGER_LABELS: Record<EventTriggerType, string> = {
+  follow: 'Follow',
+  share: 'Share',
+  like: 'Like',
+  subscribe: 'Subscribe',
+  battleStart: 'Battle Start',
+  battleScore: 'Battle Score',
+  battleWin: 'Battle Won',
+  battleLose: 'Battle Lost',
+  battleDraw: 'Battle Draw',
+  battleLeadTaken: 'Took the Lead',
+  battleLeadLost: 'Lost the Lead',
+};
+
+// Fills {placeholders} that have a value and leaves unknown ones as typed
+function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+}
+
+function handleEventTrigger(eventType: EventTriggerType, room: string, nickname: string, values: Record<string, string | number> = {}) {
+  const mapping = storageService.getEventAudio(eventType);
+  if (!mapping || !mapping.enabled) return;
+
+  const label = EVENT_TRIGGER_LABELS[eventType];
+  const audioPath = pickRandomAudio(mapping.audioFiles);
+  if (audioPath) {
+    console.log(`[Event] ${label} from ${nickname || `@${room}`} - File: ${audioPath.split(/[/\\]/).pop()}`);
+    queueLibraryAudio(room, `event:${eventType}`, label, nickname, audioPath);
+    safeSend('audio:played', { giftId: `event:${eventType}`, giftName: label });
+  }
+
+  if (mapping.showBanner && mapping.bannerMessage) {
+    const message = moderate(fillTemplate(mapping.bannerMessage, { nickname, ...values }));
+    if (message !== undefined) {
+      overlayServer.broadcast({ type: 'event-banner', data: { eventType, room, message } });
+    }
+  }
+}
+
+function battleValues(event: BattleEvent): Record<string, string | number> {
+  return {
+    score: event.score.toLocaleString('en-US'),
+    opponentScore: event.opponentScore.toLocaleString('en-US'),
+    opponent: event.opponentNickname || 'opponent',
+  };
+}
+
+function handleBattleScore(event: BattleEvent) {
+  handleEventTrigger('battleScore', event.room, '', battleValues(event));
+
+  const change = battleService.update(event);
+  if (!change) return;
+
+  console.log(`[Battle] @${event.room} ${change === 'taken' ? 'took' : 'lost'} the lead (${event.score} x ${event.opponentScore})`);
+  handleEventTrigger(change === 'taken' ? 'battleLeadTaken' : 'battleLeadLost', event.room, '', battleValues(event));
+  safeSend('battle:lead', { room: event.room, change, score: event.score, opponentScore: event.opponentScore });
+}
+
+function handleBattleEnd(event: BattleEvent) {
+  battleService.end(event.room);
+
+  const eventType: EventTriggerType = event.result === 'win' ? 'battleWin' : event.result === 'lose' ? 'battleLose' : 'battleDraw';
+  console.log(`[Battle] @${event.room} ${event.result} (${event.score} x ${event.opponentScore})`);
+  handleEventTrigger(eventType, event.room, '', battleValues(event));
+}
+
+function handleLikeMilestone(milestone: LikeMilestone) {
+  console.log(`[Likes] Milestone reached: ${milestone.milestone} (session total ${milestone.total})`);
+
+  const audioPath = pickRandomAudio(storageService.getLikeMilestones().audioFiles);
+  if (audioPath) {
+    queueLibraryAudio(milestone.room, 'milestone:likes', milestone.message, '', audioPath);
+  }
+
+  overlayServer.broadcast({ type: 'like-milestone', data: milestone });
+  safeSend('likes:milestone', milestone);
+}
+
+function handleViewerMilestone(milestone: ViewerMilestone) {
+  console.log(`[Viewers] Milestone reached: ${milestone.threshold} (current ${milestone.viewerCount})`);
+
+  const audioPath = pickRandomAudio(storageService.getViewerMilestones().audioFiles);
+  if (audioPath) {
+    queueLibraryAudio(milestone.room, 'milestone:viewers', milestone.message, '', audioPath);
+  }
+
+  overlayServer.broadcast({ type: 'viewer-milestone', data: milestone });
+  safeSend('viewers:milestone', milestone);
+}
+
+function handleGoalComplete(completion: DiamondGoalCompletion) {
+  console.log(`[Goal] Reached ${completion.target} diamonds (progress ${completion.progress})`);
+
+  const audioPath = pickRandomAudio(storageService.getDiamondGoal().audioFiles);
+  if (audioPath) {
+    queueLibraryAudio(completion.room, 'goal', completion.message, '', audioPath);
+  }
+
+  overlayServer.broadcast({ type: 'goal-complete', data: completion });
+  safeSend('goal:completed', completion);
+}
+
+function handleVipEntrance(event: MemberEvent) {
+  if (!canTrigger(event, 'VIP entrance')) return;
+
+  const entrance = vipEntranceService.match(event);
+  if (!entrance) return;
+
+  const audioPath = pickRandomAudio(entrance.audioFiles);
+  if (audioPath) {
+    console.log(`[VIP] ${event.nickname} joined - File: ${audioPath.split(/[/\\]/).pop()}`);
+    queueLibraryAudio(event.room, `vip:${entrance.id}`, 'VIP Entrance', event.nickname, audioPath);
+  }
+
+  const nickname = moderate(event.nickname);
+  if (entrance.showBanner && nickname !== undefined) {
+    const message = entrance.bannerMessage.replace(/\{nickname\}/g, nickname);
+    overlayServer.broadcast({ type: 'vip-entrance', data: { nickname, message } });
+  }
+
+  safeSend('vip:entered', { entranceId: entrance.id, userId: event.userId, username: event.username, nickname: event.nickname });
+}
+
+function resolveGiftName(event: GiftEvent): string {
+  return event.giftName === 'Gift'
+    ? storageService.getGiftName(event.giftId) || event.giftName
+    : event.giftName;
+}
+
+// How many sounds a gift message earns under the mapping's streak mode (0 = stay silent)
+function getStreakPlayCount(mapping: GiftAudioMapping, event: GiftEvent): number {
+  switch (mapping.streakMode || 'end') {
+    case 'increment':
+      return event.streakDelta ?? event.giftCount;
+    case 'start':
+      return event.isStreakStart === false ? 0 : 1;
+    default:
+      return event.isComboEnd ? event.giftCount : 0;
+  }
+}
+
+// Exact mappings (profile first, then default) win; otherwise fall back to a diamond tier rule
+function resolveGiftMapping(event: GiftEvent, giftName: string, profileId?: string): GiftAudioMapping | undefined {
+  const mapping = storageService.getGiftAudio(event.giftId, profileId);
+  if (mapping) return mapping;
+
+  const diamonds = event.diamondCount || storageService.getGiftDiamonds(event.giftId) || 0;
+  const tier = storageService.findDiamondTier(diamonds);
+  if (!tier) return undefined;
+
+  console.log(`[Audio] No mapping for ${giftName} (${diamonds} diamonds), using tier ${tier.minDiamonds}-${tier.maxDiamonds || '∞'}`);
+  return {
+    giftId: event.giftId,
+    giftName,
+    audioFiles: tier.audioFiles,
+    enabled: tier.enabled,
+  };
+}
+
+// Plays the mapped sound for a finished gift, using the room's mapping profile unless the event names one
+function handleGiftFinal(event: GiftEvent, profileId = event.profileId ?? storageService.getRoomProfile(event.room)) {
+
+  const giftName = resolveGiftName(event);
+
+  const enrichedEvent = { ...event, giftName, giftPictureUrl: giftImageUrl(event.giftId, event.giftPictureUrl || '') };
+
+
+  if (!event.replay) {
     safeSend('tiktok:gift', enrichedEvent);
+  }
 
+  if (!canTrigger(event, giftName)) return;
 
+  const mapping = resolveGiftMapping(event, giftName, profileId);
 
-    const mapping = storageService.getGiftAudio(event.giftId);
 
+  const announcement = getGiftAnnouncement(event);
+  const announce = announcement ? () => announceGift(announcement, event, giftName) : undefined;
 
-    if (mapping && mapping.enabled) {
+  if (mapping && mapping.enabled && announcement?.mode !== 'instead') {
+    playGiftMapping(mapping, event, giftName, getStreakPlayCount(mapping, event), announce);
+  } else {
+    announce?.();
+  }
+}
 
-      let audioPathToPlay: string | undefined = mapping.audioPath;
+// Mid-streak updates only matter to mappings that play during the streak
+function handleGiftStreak(event: GiftEvent) {
+  const giftName = resolveGiftName(event);
+  const mapping = resolveGiftMapping(event, giftName, event.profileId ?? storageService.getRoomProfile(event.room));
+  if (!mapping || !mapping.enabled || (mapping.streakMode || 'end') === 'end') return;
+  if (getGiftAnnouncement(event)?.mode === 'instead') return;
+  if (!canTrigger(event, giftName)) return;
 
-      if (mapping.audioFiles && mapping.audioFiles.length > 0) {
-        const randomIndex = Math.floor(Math.random() * mapping.audioFiles.length);
-        const selectedAudio = mapping.audioFiles[randomIndex];
-        console.log(`[Audio] Selecting random audio: index ${randomIndex} of ${mapping.audioFiles.length} files`);
+  playGiftMapping(mapping, event, giftName, getStreakPlayCount(mapping, event));
+}
 
-        if (typeof selectedAudio === 'string') {
-          audioPathToPlay = selectedAudio;
-        } else {
-          audioPathToPlay = selectedAudio.path;
-        }
-      }
+// Turns the gifts a message earned into a number of sounds. `total` is the streak's running
+// count, so once-per-N stays aligned across streak updates instead of rounding each one down.
+function getRepeatCount(repeat: GiftRepeatSettings, count: number, total: number): number {
+  const cap = Math.max(1, repeat.maxRepeats);
+
+  switch (repeat.mode) {
+    case 'once':
+    case 'announce':
+      return 1;
+    case 'everyN': {
+      const n = Math.max(1, repeat.everyN);
+      const previous = Math.max(0, total - count);
+      return Math.min(Math.ceil(total / n) - Math.ceil(previous / n), cap);
+    }
+    default:
+      return Math.min(count, cap);
+  }
+}
+
+// Gift TTS settings when this gift is worth announcing, undefined otherwise
+function getGiftAnnouncement(event: GiftEvent): GiftTtsSettings | undefined {
+  const tts = storageService.getGiftTts();
+  if (!tts.enabled || !tts.template.trim()) return undefined;
+
+  const perGift = event.diamondCount || storageService.getGiftDiamonds(event.giftId) || 0;
+  return perGift * event.giftCount >= tts.minDiamonds ? tts : undefined;
+}
+
+// Queues a line of speech on the overlay with the voice volume scaled by the global volume
+function speakOnOverlay(triggerId: string, label: string, text: string, voice: TtsVoiceSettings, diamonds: number = 0): string | undefined {
+  const volume = voice.volume * storageService.getSettings().globalVolume;
+  return overlayServer.speak(triggerId, label, text, { ...voice, volume }, diamonds);
+}
+
+function announceGift(tts: GiftTtsSettings, event: GiftEvent, giftName: string) {
+  const text = moderate(fillTemplate(tts.template, { nickname: event.nickname, giftName, giftCount: event.giftCount }));
+  if (text === undefined) return;
+
+  const perGift = event.diamondCount || storageService.getGiftDiamonds(event.giftId) || 0;
+
+  console.log(`[TTS] Announcing: ${text}`);
+  speakOnOverlay(`tts:${event.giftId}`, giftName, text, tts.voice, perGift * event.giftCount);
+}
 
-      if (audioPathToPlay) {
-        const settings = storageService.getSettings();
-        const globalVolume = settings.globalVolume;
+// `onQueued` runs once every sound for this trigger is in the overlay queue (right away when there is
+// nothing to play), so anything queued from it lands after them.
+function playGiftMapping(mapping: GiftAudioMapping, event: GiftEvent, giftName: string, count: number, onQueued?: () => void) {
+  if (count <= 0) return onQueued?.();
+
+  const repeat = mapping.repeat || defaultGiftRepeat;
+  const total = Math.max(event.giftCount, count);
+  const wanted = getRepeatCount(repeat, count, total);
+  if (wanted <= 0) return onQueued?.();
+
+  // The user limit may cut the repeats short; a held-back streak is only reported on its first update
+  const cooldown = event.replay ? { plays: wanted } : giftCooldownService.consume(mapping, event, wanted);
+  if (cooldown.reason) {
+    if (!cooldown.reported) {
+      const reason = cooldown.reason === 'mapping' ? `${mapping.cooldownSeconds}s gift cooldown` : 'user limit per minute';
+      console.log(`[Cooldown] ${giftName} from ${event.nickname} not played (${reason})`);
+      safeSend('audio:suppressed', { room: event.room, giftId: event.giftId, giftName, userId: event.userId, username: event.username, nickname: event.nickname, reason: cooldown.reason });
+    }
+    return onQueued?.();
+  }
+  const repeatCount = cooldown.plays;
+
+  // Sounds still play for a dropped nickname, they just go out without it
+  const nickname = moderate(event.nickname);
+
+  if (repeat.mode === 'announce' && nickname !== undefined) {
+    overlayServer.broadcast({
+      type: 'gift-combo',
+      data: {
+        nickname,
+        giftName,
+        count: total,
+        message: `${nickname} sent ${giftName} ×${total}`,
+        imageUrl: giftImageUrl(event.giftId, event.giftPictureUrl || ''),
+      },
+    });
+  }
 
+  let audioPathToPlay: string | undefined = mapping.audioPath;
 
-        const filename = audioPathToPlay.split(/[/\\]/).pop() || '';
-        const audioId = filename.replace(/\.[^/.]+$/, "");
-        const audioVolume = storageService.getAudioVolume(audioId);
-        const audioDuration = storageService.getAudioDuration(audioId) || 0;
+  if (mapping.audioFiles && mapping.audioFiles.length > 0) {
+    const randomIndex = Math.floor(Math.random() * mapping.audioFiles.length);
+    const selectedAudio = mapping.audioFiles[randomIndex];
+    console.log(`[Audio] Selecting random audio: index ${randomIndex} of ${mapping.audioFiles.length} files`);
 
-        console.log(`[Audio] File: ${filename}, ID: ${audioId}, Audio Volume: ${audioVolume}, Global: ${globalVolume}`);
+    if (typeof selectedAudio === 'string') {
+      audioPathToPlay = selectedAudio;
+    } else {
+      audioPathToPlay = selectedAudio.path;
+    }
+  }
 
-        const finalVolume = audioVolume * globalVolume;
+  if (audioPathToPlay) {
+    const settings = storageService.getSettings();
+    const globalVolume = settings.globalVolume;
 
 
+    const filename = audioPathToPlay.split(/[/\\]/).pop() || '';
+    const audioId = filename.replace(/\.[^/.]+$/, "");
+    const audioVolume = storageService.getAudioVolume(audioId);
+    const audioDuration = storageService.getAudioDuration(audioId) || 0;
 
-        const repeatCount = Math.min(event.giftCount, 20);
-        const delayMs = 250;
+    console.log(`[Audio] File: ${filename}, ID: ${audioId}, Audio Volume: ${audioVolume}, Global: ${globalVolume}`);
 
-        console.log(`[Audio] Playing "${giftName}" x${repeatCount} (Original count: ${event.giftCount}) - File: ${audioPathToPlay} @ ${Math.round(audioVolume * 100)}% vol`);
+    const finalVolume = audioVolume * globalVolume;
 
-        // Play first audio with duration
-        overlayServer.playAudio(event.giftId, giftName, event.nickname, audioPathToPlay, finalVolume, audioDuration);
-        win?.webContents.send('audio:played', { giftId: event.giftId, giftName });
 
 
-        if (repeatCount > 1) {
-          let played = 1;
-          const interval = setInterval(() => {
-            if (played >= repeatCount) {
-              clearInterval(interval);
-              return;
-            }
+    const delayMs = Math.max(0, repeat.spacingMs);
+    // Value of the gifts behind this trigger, used by the lowest-diamond queue policy
+    const diamonds = (event.diamondCount || storageService.getGiftDiamonds(event.giftId) || 0) * count;
 
+    console.log(`[Audio] Playing "${giftName}" x${repeatCount} (Original count: ${count}) - File: ${audioPathToPlay} @ ${Math.round(audioVolume * 100)}% vol`);
 
-            let nextAudioPath = audioPathToPlay!;
-            let nextVolume = finalVolume;
+    // Play first audio with duration
+    if (!overlayServer.playAudio(event.giftId, giftName, nickname ?? '', audioPathToPlay, finalVolume, audioDuration, diamonds)) return onQueued?.();
+    if (!event.replay) {
+      sessionRecorderService.recordAudio(event.room, { triggerId: event.giftId, label: giftName, nickname: event.nickname, audioPath: audioPathToPlay });
+    }
+    win?.webContents.send('audio:played', { giftId: event.giftId, giftName });
+
+
+    if (repeatCount > 1) {
+      let played = 1;
+      const interval = setInterval(() => {
 
-            if (mapping.audioFiles && mapping.audioFiles.length > 1) {
-              const nextRandomIndex = Math.floor(Math.random() * mapping.audioFiles.length);
-              const nextAudio = mapping.audioFiles[nextRandomIndex];
-              if (typeof nextAudio === 'string') {
-                nextAudioPath = nextAudio;
-              } else {
-                nextAudioPath = nextAudio.path;
-              }
+        let nextAudioPath = audioPathToPlay!;
+        let nextVolume = finalVolume;
 
-              const nextFilename = nextAudioPath.split(/[/\\]/).pop() || '';
-              const nextAudioId = nextFilename.replace(/\.[^/.]+$/, "");
-              const nextAudioVolume = storageService.getAudioVolume(nextAudioId);
-              nextVolume = nextAudioVolume * globalVolume;
-            }
+        if (mapping.audioFiles && mapping.audioFiles.length > 1) {
+          const nextRandomIndex = Math.floor(Math.random() * mapping.audioFiles.length);
+          const nextAudio = mapping.audioFiles[nextRandomIndex];
+          if (typeof nextAudio === 'string') {
+            nextAudioPath = nextAudio;
+          } else {
+            nextAudioPath = nextAudio.path;
+          }
+
+          const nextFilename = nextAudioPath.split(/[/\\]/).pop() || '';
+          const nextAudioId = nextFilename.replace(/\.[^/.]+$/, "");
+          const nextAudioVolume = storageService.getAudioVolume(nextAudioId);
+          nextVolume = nextAudioVolume * globalVolume;
+        }
 
-            const nextFilename = nextAudioPath.split(/[/\\]/).pop() || '';
-            const nextAudioIdForDuration = nextFilename.replace(/\.[^/.]+$/, "");
-            const nextDuration = storageService.getAudioDuration(nextAudioIdForDuration) || 0;
+        const nextFilename = nextAudioPath.split(/[/\\]/).pop() || '';
+        const nextAudioIdForDuration = nextFilename.replace(/\.[^/.]+$/, "");
+        const nextDuration = storageService.getAudioDuration(nextAudioIdForDuration) || 0;
 
-            console.log(`[Audio] Playing repetition ${played + 1}/${repeatCount} for ${giftName} - File: ${nextAudioPath.split(/[/\\]/).pop()}`);
-            overlayServer.playAudio(event.giftId, giftName, event.nickname, nextAudioPath, nextVolume, nextDuration);
-            played++;
-          }, delayMs);
+        console.log(`[Audio] Playing repetition ${played + 1}/${repeatCount} for ${giftName} - File: ${nextAudioPath.split(/[/\\]/).pop()}`);
+        played++;
+        if (overlayServer.playAudio(event.giftId, giftName, nickname ?? '', nextAudioPath, nextVolume, nextDuration, diamonds) && !event.replay) {
+          sessionRecorderService.recordAudio(event.room, { triggerId: event.giftId, label: giftName, nickname: event.nickname, audioPath: nextAudioPath });
         }
-      }
+
+        if (played >= repeatCount) {
+          clearInterval(interval);
+          onQueued?.();
+        }
+      }, delayMs);
+    } else {
+      onQueued?.();
     }
+  } else {
+    onQueued?.();
+  }
+}
+
+// Pushes the configured top list to the /leaderboard overlay and tells the app panel to refresh
+function publishLeaderboard() {
+  const settings = storageService.getLeaderboardSettings();
+  overlayServer.updateLeaderboard({
+    title: settings.overlayTitle,
+    // Names can't be left out of the ranking, so they're always masked rather than dropped
+    entries: leaderboardService.getTop(settings.overlayScope, settings.overlayLimit)
+      .map(entry => ({ ...entry, nickname: wordFilterService.apply(entry.nickname).text })),
+  });
+  safeSend('leaderboard:updated');
+}
+
+function publishGoal() {
+  const state = diamondGoalService.getState();
+  overlayServer.updateGoal(state);
+  safeSend('goal:updated', state);
+}
+
+// Wires an event source to the playback pipeline. TikTokService and the simulator emit the same events.
+function setupTikTokEvents(source: EventEmitter) {
+  source.on('status', (room: string, status: ConnectionStatus) => {
+    safeSend('tiktok:status', { room, status });
   });
 
-  tiktokService.on('chat', (event) => {
+  source.on('connected', (info: RoomInfo) => {
+    chatCommandService.reset(info.room);
+    likeMilestoneService.startSession(info.room, info.roomId);
+    viewerMilestoneService.startSession(info.room, info.roomId, info.viewerCount);
+    vipEntranceService.startSession(info.room, info.roomId);
+    leaderboardService.startSession(info.room, info.roomId);
+    chatTtsService.startSession(info.room, info.roomId);
+    sessionRecorderService.startSession(info.room, info);
+    sessionRecorderService.record(info.room, 'connected', info);
+    safeSend('tiktok:connected', info);
+  });
+
+  source.on('disconnected', (room: string) => {
+    sessionRecorderService.record(room, 'disconnected', {});
+    safeSend('tiktok:disconnected', room);
+  });
+
+  source.on('error', (room: string, message: string) => {
+    sessionRecorderService.record(room, 'error', { message });
+    safeSend('tiktok:error', { room, message });
+  });
+
+  source.on('reconnect', (room: string, state: ReconnectState | null) => {
+    safeSend('tiktok:reconnect', { room, state });
+  });
+
+  source.on('dedupStats', (stats: DedupStats) => {
+    safeSend('tiktok:dedupStats', stats);
+  });
+
+
+  source.on('giftFinal', (event: GiftEvent) => {
+    sessionRecorderService.record(event.room, 'giftFinal', event);
+    // Simulated gifts rank in the session but never reach the all-time board
+    leaderboardService.addGift(event, { allTime: source !== simulatorService });
+    chatTtsService.addGifter(event.room, event.userId);
+    publishLeaderboard();
+    const completion = diamondGoalService.addGift(event);
+    publishGoal();
+    if (completion) {
+      handleGoalComplete(completion);
+    }
+    handleGiftFinal(event);
+  });
+
+  source.on('giftStreak', (event: GiftEvent) => {
+    sessionRecorderService.record(event.room, 'giftStreak', event);
+    handleGiftStreak(event);
+  });
+
+  source.on('chat', (event: ChatEvent) => {
+    sessionRecorderService.record(event.room, 'chat', event);
     win?.webContents.send('tiktok:chat', event);
+    handleChatCommand(event);
+    handleChatTts(event);
   });
 
-  tiktokService.on('member', (event) => {
+  source.on('member', (event: MemberEvent) => {
+    sessionRecorderService.record(event.room, 'member', event);
     win?.webContents.send('tiktok:member', event);
+    handleVipEntrance(event);
+  });
+
+  source.on('follow', (event: FollowEvent) => {
+    sessionRecorderService.record(event.room, 'follow', event);
+    safeSend('tiktok:follow', event);
+    chatTtsService.addFollower(event.room, event.userId);
+    handleEventTrigger('follow', event.room, event.nickname);
+  });
+
+  source.on('share', (event: ShareEvent) => {
+    sessionRecorderService.record(event.room, 'share', event);
+    safeSend('tiktok:share', event);
+    handleEventTrigger('share', event.room, event.nickname);
+  });
+
+  source.on('like', (event: LikeEvent) => {
+    sessionRecorderService.record(event.room, 'like', event);
+    safeSend('tiktok:like', event);
+    handleEventTrigger('like', event.room, event.nickname);
+
+    const milestone = likeMilestoneService.addLikes(event.room, event.likeCount);
+    if (milestone) {
+      handleLikeMilestone(milestone);
+    }
+  });
+
+  source.on('subscribe', (event: SubscribeEvent) => {
+    sessionRecorderService.record(event.room, 'subscribe', event);
+    safeSend('tiktok:subscribe', event);
+    handleEventTrigger('subscribe', event.room, event.nickname);
+  });
+
+  source.on('battleStart', (event: BattleEvent) => {
+    sessionRecorderService.record(event.room, 'battleStart', event);
+    safeSend('tiktok:battleStart', event);
+    battleService.start(event.room);
+    handleEventTrigger('battleStart', event.room, '', battleValues(event));
+  });
+
+  source.on('battleScore', (event: BattleEvent) => {
+    sessionRecorderService.record(event.room, 'battleScore', event);
+    handleBattleScore(event);
   });
 
-  tiktokService.on('roomStats', (stats) => {
+  source.on('battleEnd', (event: BattleEvent) => {
+    sessionRecorderService.record(event.room, 'battleEnd', event);
+    safeSend('tiktok:battleEnd', event);
+    handleBattleEnd(event);
+  });
+
+  source.on('roomStats', (stats: { room: string; viewerCount: number }) => {
+    sessionRecorderService.record(stats.room, 'roomStats', stats);
     win?.webContents.send('tiktok:roomStats', stats);
+
+    const milestone = viewerMilestoneService.update(stats.room, stats.viewerCount);
+    if (milestone) {
+      handleViewerMilestone(milestone);
+    }
+  });
+}
+
+function setupReplayEvents() {
+  // Replayed gifts go through the same handlers as live ones; their `replay` flag keeps them out of
+  // the recording, the cooldowns and the live gift log
+  sessionReplayService.on('giftFinal', (event: GiftEvent) => {
+    handleGiftFinal(event);
+  });
+
+  sessionReplayService.on('giftStreak', (event: GiftEvent) => {
+    handleGiftStreak(event);
+  });
+
+  sessionReplayService.on('progress', (state: ReplayState) => {
+    safeSend('replay:progress', state);
+  });
+
+  sessionReplayService.on('finished', () => {
+    safeSend('replay:progress', null);
+  });
+}
+
+function setupOverlayEvents() {
+  // Chat TTS items leave the pending list once read, dropped, skipped or cleared
+  overlayServer.on('itemDone', (id: string) => {
+    if (chatTtsService.remove(id)) {
+      publishChatTts();
+    }
+  });
+}
+
+function setupSimulatorEvents() {
+  simulatorService.on('progress', (state: SimulatorState | null) => {
+    safeSend('simulator:progress', state);
   });
 }
 
@@ -192,7 +732,8 @@ function setupTikTokEvents() {
 function setupIpcHandlers() {
 
   ipcMain.handle('settings:get', () => {
-    return storageService.getSettings();
+    const settings = storageService.getSettings();
+    return { ...settings, cachedGifts: withLocalImages(settings.cachedGifts) };
   });
 
 
@@ -234,37 +775,220 @@ function setupIpcHandlers() {
 
   ipcMain.handle('tiktok:connect', async (_, username: string) => {
     if (!username || typeof username !== 'string') throw new Error('Invalid username');
+    if (simulatorService.isSimulatedRoom(toRoomKey(username))) throw new Error(`@${SIMULATOR_ROOM} is reserved for the simulator`);
 
     storageService.setLastUsername(username);
     return await tiktokService.connect(username);
   });
 
-  ipcMain.handle('tiktok:disconnect', async () => {
-    await tiktokService.disconnect();
+  // Without a room this closes every connection
+  ipcMain.handle('tiktok:disconnect', async (_, room?: string) => {
+    if (typeof room !== 'string') {
+      await tiktokService.disconnect();
+      simulatorService.stop();
+      sessionRecorderService.endAll();
+      leaderboardService.removeSession();
+      publishLeaderboard();
+      return true;
+    }
+
+    if (simulatorService.isSimulatedRoom(toRoomKey(room))) {
+      simulatorService.stop();
+    } else {
+      await tiktokService.disconnect(room);
+    }
+    sessionRecorderService.endSession(toRoomKey(room));
+    leaderboardService.removeSession(toRoomKey(room));
+    publishLeaderboard();
+    return true;
+  });
+
+  ipcMain.handle('sessions:list', () => {
+    return sessionRecorderService.listSessions();
+  });
+
+  ipcMain.handle('sessions:open', (_, id: string) => {
+    if (typeof id !== 'string') return null;
+    return sessionRecorderService.getSession(id);
+  });
+
+  ipcMain.handle('sessions:delete', (_, id: string) => {
+    if (typeof id !== 'string') return false;
+    return sessionRecorderService.deleteSession(id);
+  });
+
+  ipcMain.handle('replay:start', (_, sessionId: string, options: ReplayOptions) => {
+    if (typeof sessionId !== 'string' || !options || typeof options.speed !== 'number') {
+      throw new Error('Invalid replay options');
+    }
+    return sessionReplayService.start(sessionId, options);
+  });
+
+  ipcMain.handle('replay:stop', () => {
+    sessionReplayService.stop();
     return true;
   });
 
-  ipcMain.handle('tiktok:getStatus', () => {
-    return tiktokService.getStatus();
+  ipcMain.handle('replay:getState', () => {
+    return sessionReplayService.getState();
+  });
+
+  ipcMain.handle('leaderboard:get', (_, scope: LeaderboardScope, limit?: number) => {
+    return leaderboardService.getTop(scope === 'allTime' ? 'allTime' : 'session', limit);
+  });
+
+  ipcMain.handle('leaderboard:reset', (_, scope: LeaderboardScope) => {
+    leaderboardService.reset(scope === 'allTime' ? 'allTime' : 'session');
+    publishLeaderboard();
+    return true;
+  });
+
+  ipcMain.handle('leaderboard:getSettings', () => {
+    return storageService.getLeaderboardSettings();
+  });
+
+  ipcMain.handle('leaderboard:setSettings', (_, settings: LeaderboardSettings) => {
+    storageService.setLeaderboardSettings(settings);
+    publishLeaderboard();
+    return true;
+  });
+
+  ipcMain.handle('goal:get', () => {
+    return storageService.getDiamondGoal();
+  });
+
+  ipcMain.handle('goal:set', (_, settings: DiamondGoalSettings) => {
+    storageService.setDiamondGoal(settings);
+    publishGoal();
+    return true;
+  });
+
+  ipcMain.handle('goal:getState', () => {
+    return diamondGoalService.getState();
+  });
+
+  ipcMain.handle('goal:setProgress', (_, progress: number) => {
+    if (typeof progress !== 'number' || !Number.isFinite(progress)) return false;
+    diamondGoalService.setProgress(progress);
+    publishGoal();
+    return true;
+  });
+
+  ipcMain.handle('tiktok:getStatus', (_, room: string) => {
+    if (typeof room !== 'string') return 'disconnected';
+    if (simulatorService.isSimulatedRoom(toRoomKey(room))) return simulatorService.getStatus();
+    return tiktokService.getStatus(room);
+  });
+
+  ipcMain.handle('tiktok:getRooms', () => {
+    return [...tiktokService.getRooms(), ...simulatorService.getRooms()];
+  });
+
+  ipcMain.handle('diamondTiers:list', () => {
+    return storageService.getAllDiamondTiers();
+  });
+
+  ipcMain.handle('diamondTiers:set', (_, tier: DiamondTier) => {
+    if (!tier || !tier.id || typeof tier.minDiamonds !== 'number' || typeof tier.maxDiamonds !== 'number') return false;
+    storageService.setDiamondTier(tier);
+    return true;
+  });
+
+  ipcMain.handle('diamondTiers:remove', (_, id: string) => {
+    storageService.removeDiamondTier(id);
+    return true;
+  });
+
+  ipcMain.handle('profiles:list', () => {
+    return storageService.getAllMappingProfiles();
+  });
+
+  ipcMain.handle('profiles:set', (_, profile: MappingProfile) => {
+    if (!profile || !profile.id || !profile.name) return false;
+    storageService.setMappingProfile({ ...profile, giftAudioMappings: profile.giftAudioMappings || {} });
+    return true;
+  });
+
+  ipcMain.handle('profiles:remove', (_, id: string) => {
+    storageService.removeMappingProfile(id);
+    return true;
+  });
+
+  ipcMain.handle('profiles:getRoomProfiles', () => {
+    return storageService.getAllRoomProfiles();
+  });
+
+  ipcMain.handle('profiles:setRoomProfile', (_, room: string, profileId: string) => {
+    if (typeof room !== 'string' || typeof profileId !== 'string') return false;
+    storageService.setRoomProfile(toRoomKey(room), profileId);
+    return true;
+  });
+
+  ipcMain.handle('reconnect:get', () => {
+    return storageService.getReconnectSettings();
+  });
+
+  ipcMain.handle('reconnect:set', (_, settings: ReconnectSettings) => {
+    if (!settings || typeof settings.maxAttempts !== 'number' || typeof settings.baseDelaySeconds !== 'number') return false;
+    storageService.setReconnectSettings(settings);
+    return true;
+  });
+
+  ipcMain.handle('dedup:get', () => {
+    return storageService.getDedupSettings();
+  });
+
+  ipcMain.handle('dedup:set', (_, settings: DedupSettings) => {
+    if (!settings || typeof settings.windowSeconds !== 'number' || settings.windowSeconds < 1) return false;
+    storageService.setDedupSettings(settings);
+    return true;
+  });
+
+  ipcMain.handle('cooldown:get', () => {
+    return storageService.getGiftCooldownSettings();
+  });
+
+  ipcMain.handle('cooldown:set', (_, settings: GiftCooldownSettings) => {
+    if (!settings || typeof settings.userMaxPlaysPerMinute !== 'number' || settings.userMaxPlaysPerMinute < 0) return false;
+    storageService.setGiftCooldownSettings(settings);
+    return true;
+  });
+
+  ipcMain.handle('dedup:getStats', () => {
+    return tiktokService.getDedupStats();
+  });
+
+  ipcMain.handle('dedup:resetStats', () => {
+    tiktokService.resetDedupStats();
+    return true;
   });
 
   ipcMain.handle('tiktok:fetchGifts', async () => {
 
     const cachedGifts = storageService.getCachedGifts();
     if (cachedGifts.length > 0) {
-      return cachedGifts;
+      // Catalogs cached before images were stored locally pick them up here
+      cacheGiftImages(cachedGifts);
+      return withLocalImages(cachedGifts);
     }
 
+    const refreshed = await giftCatalogService.refresh();
+    if (!refreshed) return [];
+
+    cacheGiftImages(refreshed.gifts);
+    return withLocalImages(refreshed.gifts);
+  });
+
+  ipcMain.handle('tiktok:refreshGifts', async () => {
+    const refreshed = await giftCatalogService.refresh();
+    if (!refreshed) return undefined;
 
-    const rawGifts = await tiktokService.fetchAvailableGifts();
-    const cachedData = rawGifts.map((g: any) => ({
-      id: g.id,
-      name: g.name,
-      diamondCount: g.diamondCount || g.diamond_count || 0,
-      imageUrl: g.image?.url_list?.[0] || '',
-    }));
-    storageService.setCachedGifts(cachedData);
-    return cachedData;
+    cacheGiftImages(refreshed.gifts);
+    return { ...refreshed, gifts: withLocalImages(refreshed.gifts) };
+  });
+
+  ipcMain.handle('tiktok:clearNewGifts', () => {
+    return withLocalImages(giftCatalogService.clearNew());
   });
 
   ipcMain.handle('overlay:getQueueProgress', () => {
@@ -276,19 +1000,167 @@ function setupIpcHandlers() {
     return true;
   });
 
+  ipcMain.handle('tts:getGift', () => {
+    return storageService.getGiftTts();
+  });
+
+  ipcMain.handle('tts:setGift', (_, settings: GiftTtsSettings) => {
+    if (!settings || typeof settings.template !== 'string' || !settings.voice) return false;
+    storageService.setGiftTts(settings);
+    return true;
+  });
+
+  ipcMain.handle('tts:test', (_, text: string, voice: TtsVoiceSettings) => {
+    if (typeof text !== 'string' || !text.trim() || !voice) return false;
+    return Boolean(speakOnOverlay('tts:test', 'TTS Test', text.trim(), voice));
+  });
+
+  ipcMain.handle('chatTts:get', () => {
+    return storageService.getChatTts();
+  });
+
+  ipcMain.handle('chatTts:set', (_, settings: ChatTtsSettings) => {
+    if (!settings || typeof settings.template !== 'string' || !settings.voice) return false;
+    if (typeof settings.maxLength !== 'number' || typeof settings.maxBacklog !== 'number') return false;
+    storageService.setChatTts(settings);
+    return true;
+  });
+
+  ipcMain.handle('chatTts:getPending', () => {
+    return chatTtsService.getPending();
+  });
+
+  ipcMain.handle('chatTts:skip', (_, id: string) => {
+    return overlayServer.removeItem(id);
+  });
 
-  ipcMain.handle('audio:setMapping', (_, mapping) => {
-    storageService.setGiftAudio(mapping);
+  ipcMain.handle('wordFilter:get', () => {
+    return storageService.getWordFilter();
+  });
+
+  ipcMain.handle('wordFilter:set', (_, settings: WordFilterSettings) => {
+    if (!settings || !Array.isArray(settings.words) || typeof settings.replacement !== 'string') return false;
+    storageService.setWordFilter(settings);
+    publishLeaderboard();
     return true;
   });
 
-  ipcMain.handle('audio:removeMapping', (_, giftId: string) => {
-    storageService.removeGiftAudio(giftId);
+  ipcMain.handle('wordFilter:test', (_, text: string, settings?: WordFilterSettings) => {
+    if (typeof text !== 'string') return { text: '', matches: [], blocked: false };
+    return wordFilterService.apply(text, settings ? { ...settings, enabled: true } : undefined);
+  });
+
+  ipcMain.handle('overlay:getQueueLimits', () => {
+    return storageService.getQueueLimits();
+  });
+
+  ipcMain.handle('overlay:setQueueLimits', (_, settings: QueueLimitSettings) => {
+    if (!settings || typeof settings.maxItems !== 'number' || typeof settings.maxSeconds !== 'number') return false;
+    if (settings.maxItems < 0 || settings.maxSeconds < 0) return false;
+    storageService.setQueueLimits(settings);
+    overlayServer.setQueueLimits(settings);
     return true;
   });
 
-  ipcMain.handle('audio:getMappings', () => {
-    return storageService.getAllGiftMappings();
+
+  // profileId is optional everywhere: without it the default mappings are used
+  ipcMain.handle('audio:setMapping', (_, mapping, profileId?: string) => {
+    storageService.setGiftAudio(mapping, profileId || undefined);
+    return true;
+  });
+
+  ipcMain.handle('audio:removeMapping', (_, giftId: string, profileId?: string) => {
+    storageService.removeGiftAudio(giftId, profileId || undefined);
+    return true;
+  });
+
+  ipcMain.handle('audio:getMappings', (_, profileId?: string) => {
+    return storageService.getAllGiftMappings(profileId || undefined);
+  });
+
+  ipcMain.handle('chatCommands:list', () => {
+    return storageService.getAllChatCommands();
+  });
+
+  ipcMain.handle('chatCommands:set', (_, command: ChatCommand) => {
+    if (!command || typeof command.id !== 'string' || typeof command.command !== 'string') return false;
+    storageService.setChatCommand(command);
+    return true;
+  });
+
+  ipcMain.handle('chatCommands:remove', (_, id: string) => {
+    storageService.removeChatCommand(id);
+    return true;
+  });
+
+  ipcMain.handle('eventMappings:list', () => {
+    return storageService.getAllEventMappings();
+  });
+
+  ipcMain.handle('eventMappings:set', (_, mapping: EventAudioMapping) => {
+    if (!mapping || !EVENT_TRIGGER_LABELS[mapping.eventType]) return false;
+    storageService.setEventAudio(mapping);
+    return true;
+  });
+
+  ipcMain.handle('likeMilestones:get', () => {
+    return storageService.getLikeMilestones();
+  });
+
+  ipcMain.handle('likeMilestones:set', (_, settings: LikeMilestoneSettings) => {
+    if (!settings || typeof settings.everyN !== 'number' || !Array.isArray(settings.totals)) return false;
+    storageService.setLikeMilestones(settings);
+    return true;
+  });
+
+  ipcMain.handle('viewerMilestones:get', () => {
+    return storageService.getViewerMilestones();
+  });
+
+  ipcMain.handle('viewerMilestones:set', (_, settings: ViewerMilestoneSettings) => {
+    if (!settings || !Array.isArray(settings.thresholds) || typeof settings.hysteresisPercent !== 'number') return false;
+    storageService.setViewerMilestones(settings);
+    return true;
+  });
+
+  ipcMain.handle('vipEntrances:list', () => {
+    return storageService.getAllVipEntrances();
+  });
+
+  ipcMain.handle('vipEntrances:set', (_, entrance: VipEntrance) => {
+    if (!entrance || typeof entrance.id !== 'string' || typeof entrance.userKey !== 'string') return false;
+    storageService.setVipEntrance(entrance);
+    return true;
+  });
+
+  ipcMain.handle('vipEntrances:remove', (_, id: string) => {
+    storageService.removeVipEntrance(id);
+    return true;
+  });
+
+  ipcMain.handle('userAccess:list', () => {
+    return storageService.getUserAccessList();
+  });
+
+  ipcMain.handle('userAccess:set', (_, entry: UserAccessEntry) => {
+    if (!entry || typeof entry.id !== 'string' || typeof entry.userKey !== 'string') return false;
+    if (entry.list !== 'block' && entry.list !== 'allow') return false;
+    storageService.setUserAccessEntry(entry);
+    return true;
+  });
+
+  ipcMain.handle('userAccess:remove', (_, id: string) => {
+    storageService.removeUserAccessEntry(id);
+    return true;
+  });
+
+  ipcMain.handle('userAccess:getSettings', () => {
+    return storageService.getUserAccessSettings();
+  });
+
+  ipcMain.handle('userAccess:setSettings', (_, settings: UserAccessSettings) => {
+    storageService.setUserAccessSettings(settings);
+    return true;
   });
 
   ipcMain.handle('audio:selectFile', async () => {
@@ -313,34 +1185,48 @@ function setupIpcHandlers() {
   });
 
 
-  ipcMain.handle('test:triggerGift', (_, giftName: string) => {
-    const mappings = storageService.getAllGiftMappings();
+  ipcMain.handle('simulator:getState', () => {
+    return simulatorService.getState();
+  });
 
+  ipcMain.handle('simulator:listScenarios', () => {
+    return simulatorService.listScenarios();
+  });
 
-    for (const mapping of Object.values(mappings)) {
-      if (mapping.giftName.toLowerCase() === giftName.toLowerCase() && mapping.enabled && (mapping.audioPath || (mapping.audioFiles && mapping.audioFiles.length > 0))) {
+  ipcMain.handle('simulator:importScenario', async () => {
+    return await simulatorService.importScenario();
+  });
 
+  ipcMain.handle('simulator:openScenariosFolder', async () => {
+    await shell.openPath(simulatorService.getScenariosPath());
+    return true;
+  });
 
-        const count = 3;
+  ipcMain.handle('simulator:runScenario', (_, name: string) => {
+    if (typeof name !== 'string') throw new Error('Invalid scenario name');
+    return simulatorService.runScenario(simulatorService.loadScenario(name));
+  });
 
-        const mockEvent: GiftEvent = {
-          userId: 'test-user',
-          username: 'test_user',
-          nickname: 'Test User',
-          giftId: mapping.giftId,
-          giftName: mapping.giftName,
-          giftCount: count,
-          diamondCount: 1,
-          isComboEnd: true,
-          giftPictureUrl: ''
-        };
+  ipcMain.handle('simulator:getLoadProfiles', () => {
+    return LOAD_PROFILES;
+  });
 
-        console.log(`[Test] Emitting mock gift event for ${mapping.giftName} x${count}`);
-        tiktokService.emit('giftFinal', mockEvent);
-        return true;
-      }
-    }
-    return false;
+  ipcMain.handle('simulator:runLoad', (_, profile: LoadProfile) => {
+    if (!profile || typeof profile.giftsPerMinute !== 'number') throw new Error('Invalid load profile');
+    return simulatorService.runLoad(profile);
+  });
+
+  ipcMain.handle('simulator:stop', () => {
+    simulatorService.stop();
+    return true;
+  });
+
+  // Fires a single event (e.g. the Testing card's gift) through the simulator room
+  ipcMain.handle('simulator:emit', (_, step: SimulatedStep) => {
+    if (!step || typeof step.type !== 'string') return false;
+    console.log(`[Simulator] Emitting ${step.type} event`);
+    simulatorService.emitStep(step);
+    return true;
   });
 }
 
@@ -348,6 +1234,11 @@ function setupIpcHandlers() {
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     tiktokService.disconnect();
+    simulatorService.stop();
+    sessionReplayService.stop();
+    sessionRecorderService.endAll();
+    leaderboardService.flush();
+    diamondGoalService.flush();
     overlayServer.stop();
     app.quit();
     win = null;
@@ -361,7 +1252,11 @@ app.on('activate', () => {
 });
 
 app.whenReady().then(async () => {
-  setupTikTokEvents();
+  setupTikTokEvents(tiktokService);
+  setupTikTokEvents(simulatorService);
+  setupReplayEvents();
+  setupSimulatorEvents();
+  setupOverlayEvents();
   setupIpcHandlers();
 
   // Create window first for faster perceived startup
@@ -372,8 +1267,12 @@ app.whenReady().then(async () => {
 
   try {
     const libraryPath = audioLibraryService.ensureLibraryDir();
-    await overlayServer.start(settings.overlayPort, libraryPath);
+    overlayServer.setQueueLimits(storageService.getQueueLimits());
+    await overlayServer.start(settings.overlayPort, libraryPath, giftImageService.ensureImagesDir());
     console.log('[Main] Overlay server started successfully');
+    cacheGiftImages(storageService.getCachedGifts());
+    publishLeaderboard();
+    publishGoal();
   } catch (e) {
     console.error('Failed to start overlay server:', e);
   }
@@ -2,6 +2,7 @@ import { ipcRenderer, contextBridge } from 'electron';
 
 
 export interface GiftEvent {
+  room: string;
   userId: string;
   username: string;
   nickname: string;
@@ -11,19 +12,74 @@ export interface GiftEvent {
   diamondCount: number;
   isComboEnd: boolean;
   giftPictureUrl?: string;
+  isModerator?: boolean;
 }
 
 export interface ChatEvent {
+  room: string;
   userId: string;
   username: string;
   nickname: string;
   message: string;
+  isModerator?: boolean;
+  isFollower?: boolean;
+  isGifter?: boolean;
 }
 
 export interface MemberEvent {
+  room: string;
   userId: string;
   username: string;
   nickname: string;
+  isModerator?: boolean;
+}
+
+export interface FollowEvent {
+  room: string;
+  userId: string;
+  username: string;
+  nickname: string;
+}
+
+export interface ShareEvent {
+  room: string;
+  userId: string;
+  username: string;
+  nickname: string;
+}
+
+export interface LikeEvent {
+  room: string;
+  userId: string;
+  username: string;
+  nickname: string;
+  likeCount: number;
+  totalLikeCount: number;
+}
+
+export interface SubscribeEvent {
+  room: string;
+  userId: string;
+  username: string;
+  nickname: string;
+}
+
+export interface RoomInfo {
+  room: string;
+  roomId: string;
+  title: string;
+  viewerCount: number;
+  nickname: string;
+  profilePictureUrl: string;
+}
+
+export interface BattleEvent {
+  room: string;
+  battleId: string;
+  score: number;
+  opponentScore: number;
+  opponentNickname: string;
+  result?: 'win' | 'lose' | 'draw';
 }
 
 export interface AudioFileEntry {
@@ -31,26 +87,385 @@ export interface AudioFileEntry {
   volume: number;
 }
 
+export type GiftStreakMode = 'increment' | 'start' | 'end';
+
+export type GiftRepeatMode = 'perGift' | 'once' | 'everyN' | 'announce';
+
+export interface GiftRepeatSettings {
+  mode: GiftRepeatMode;
+  maxRepeats: number;
+  everyN: number;
+  spacingMs: number;
+}
+
 export interface GiftAudioMapping {
   giftId: string;
   giftName: string;
   audioPath?: string;
   audioFiles: AudioFileEntry[];
   enabled: boolean;
+  streakMode?: GiftStreakMode;
+  repeat?: GiftRepeatSettings;
+  cooldownSeconds?: number;
+}
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  giftAudioMappings: Record<string, GiftAudioMapping>;
+}
+
+export interface DiamondTier {
+  id: string;
+  minDiamonds: number;
+  maxDiamonds: number;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+}
+
+export interface ChatCommand {
+  id: string;
+  command: string;
+  aliases: string[];
+  argPattern: string;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+  cooldownSeconds: number;
+  userCooldownSeconds: number;
+}
+
+export type EventTriggerType = 'follow' | 'share' | 'like' | 'subscribe'
+  | 'battleStart' | 'battleScore' | 'battleWin' | 'battleLose' | 'battleDraw' | 'battleLeadTaken' | 'battleLeadLost';
+
+export interface EventAudioMapping {
+  eventType: EventTriggerType;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+  showBanner?: boolean;
+  bannerMessage?: string;
+}
+
+export interface LikeMilestoneSettings {
+  enabled: boolean;
+  everyN: number;
+  totals: number[];
+  audioFiles: AudioFileEntry[];
+  message: string;
+}
+
+export interface ViewerMilestoneSettings {
+  enabled: boolean;
+  thresholds: number[];
+  oncePerSession: boolean;
+  hysteresisPercent: number;
+  audioFiles: AudioFileEntry[];
+  message: string;
+}
+
+export interface VipEntrance {
+  id: string;
+  userKey: string;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+  showBanner: boolean;
+  bannerMessage: string;
+}
+
+export type UserAccessList = 'block' | 'allow';
+
+export interface UserAccessEntry {
+  id: string;
+  userKey: string;
+  nickname: string;
+  list: UserAccessList;
+  addedAt: number;
+}
+
+export interface UserAccessSettings {
+  allowlistOnly: boolean;
+  allowModerators: boolean;
+}
+
+export interface ReconnectSettings {
+  enabled: boolean;
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  waitForLive: boolean;
+  liveCheckIntervalSeconds: number;
+}
+
+export interface DiamondGoalSettings {
+  enabled: boolean;
+  title: string;
+  target: number;
+  audioFiles: AudioFileEntry[];
+  message: string;
+}
+
+export interface DiamondGoalState {
+  enabled: boolean;
+  title: string;
+  target: number;
+  progress: number;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  username: string;
+  nickname: string;
+  diamonds: number;
+  gifts: number;
+  lastGiftAt: number;
+}
+
+export type LeaderboardScope = 'session' | 'allTime';
+
+export interface LeaderboardSettings {
+  trackAllTime: boolean;
+  overlayScope: LeaderboardScope;
+  overlayLimit: number;
+  overlayTitle: string;
+}
+
+export interface DedupSettings {
+  windowSeconds: number;
+}
+
+export interface GiftCooldownSettings {
+  userMaxPlaysPerMinute: number;
+}
+
+export type QueueDropPolicy = 'dropNewest' | 'dropOldest' | 'dropLowestDiamond' | 'collapseDuplicates';
+
+export interface QueueLimitSettings {
+  maxItems: number;
+  maxSeconds: number;
+  policy: QueueDropPolicy;
+}
+
+export interface TtsVoiceSettings {
+  voice: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export type GiftTtsMode = 'after' | 'instead';
+
+export interface GiftTtsSettings {
+  enabled: boolean;
+  mode: GiftTtsMode;
+  template: string;
+  minDiamonds: number;
+  voice: TtsVoiceSettings;
+}
+
+export type ChatTtsAudience = 'everyone' | 'followers' | 'gifters';
+
+export interface ChatTtsSettings {
+  enabled: boolean;
+  audience: ChatTtsAudience;
+  template: string;
+  skipLinks: boolean;
+  skipCommands: boolean;
+  maxLength: number;
+  maxBacklog: number;
+  voice: TtsVoiceSettings;
+}
+
+export interface ChatTtsItem {
+  id: string;
+  room: string;
+  nickname: string;
+  message: string;
+  queuedAt: number;
+}
+
+export type WordFilterAction = 'replace' | 'drop';
+
+export interface WordFilterSettings {
+  enabled: boolean;
+  words: string[];
+  action: WordFilterAction;
+  replacement: string;
+  normalizeLeetspeak: boolean;
+}
+
+export interface WordFilterResult {
+  text: string;
+  matches: string[];
+  blocked: boolean;
+}
+
+export interface CachedGift {
+  id: number;
+  name: string;
+  diamondCount: number;
+  imageUrl: string;
+  isNew?: boolean;
+  unavailable?: boolean;
+}
+
+export interface GiftCatalogRefresh {
+  gifts: CachedGift[];
+  added: number;
+  missing: number;
+  updatedAt: number;
+}
+
+export interface DedupStats {
+  suppressed: number;
+  lastSuppressedAt: number;
+  lastRoom: string;
+}
+
+export interface ReconnectState {
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt: number;
+  waitingForLive: boolean;
 }
 
 export interface AppSettings {
   lastUsername: string;
   giftAudioMappings: Record<string, GiftAudioMapping>;
+  mappingProfiles: Record<string, MappingProfile>;
+  roomProfiles: Record<string, string>;
+  diamondTiers: Record<string, DiamondTier>;
+  chatCommands: Record<string, ChatCommand>;
+  eventAudioMappings: Partial<Record<EventTriggerType, EventAudioMapping>>;
+  likeMilestones: LikeMilestoneSettings;
+  viewerMilestones: ViewerMilestoneSettings;
+  vipEntrances: Record<string, VipEntrance>;
+  userAccessList: Record<string, UserAccessEntry>;
+  userAccess: UserAccessSettings;
+  reconnect: ReconnectSettings;
+  dedup: DedupSettings;
+  giftCooldown: GiftCooldownSettings;
+  queueLimits: QueueLimitSettings;
+  giftTts: GiftTtsSettings;
+  chatTts: ChatTtsSettings;
+  wordFilter: WordFilterSettings;
+  leaderboard: LeaderboardSettings;
+  leaderboardAllTime: Record<string, LeaderboardEntry>;
+  diamondGoal: DiamondGoalSettings;
+  diamondGoalProgress: number;
   overlayPort: number;
   showGiftAnimation: boolean;
   globalVolume: number;
+  cachedGifts: CachedGift[];
+  giftCatalogUpdatedAt: number;
   giftSortOrder: 'asc' | 'desc' | 'none';
   audioFileNames: Record<string, string>;
   audioFileVolumes: Record<string, number>;
 }
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+export interface SessionEventData {
+  connected: RoomInfo;
+  disconnected: Record<string, never>;
+  error: { message: string };
+  giftFinal: GiftEvent;
+  giftStreak: GiftEvent;
+  chat: ChatEvent;
+  member: MemberEvent;
+  follow: FollowEvent;
+  share: ShareEvent;
+  like: LikeEvent;
+  subscribe: SubscribeEvent;
+  roomStats: { room: string; viewerCount: number };
+  battleStart: BattleEvent;
+  battleScore: BattleEvent;
+  battleEnd: BattleEvent;
+  audio: { triggerId: string; label: string; nickname: string; audioPath: string; audioName: string };
+}
+
+export type SessionRecord = {
+  [K in keyof SessionEventData]: { t: number; type: K; room: string; roomId: string; data: SessionEventData[K] };
+}[keyof SessionEventData];
+
+export interface SessionSummary {
+  id: string;
+  room: string;
+  roomId: string;
+  nickname: string;
+  title: string;
+  startedAt: number;
+  endedAt: number;
+  eventCount: number;
+  giftCount: number;
+  audioCount: number;
+  sizeBytes: number;
+  recording: boolean;
+}
+
+export interface ReplayOptions {
+  speed: number;
+  fromMs: number;
+  toMs: number;
+}
+
+export interface ReplayState {
+  sessionId: string;
+  room: string;
+  speed: number;
+  played: number;
+  total: number;
+  positionMs: number;
+  fromMs: number;
+  toMs: number;
+}
+
+export type SimulatedEventType = 'gift' | 'chat' | 'member' | 'like' | 'follow' | 'share' | 'subscribe' | 'viewers'
+  | 'battleStart' | 'battleScore' | 'battleEnd';
+
+export interface SimulatedStep {
+  at?: number;
+  type: SimulatedEventType;
+  user?: string;
+  nickname?: string;
+  giftId?: string;
+  giftName?: string;
+  count?: number;
+  diamonds?: number;
+  streak?: boolean;
+  message?: string;
+  moderator?: boolean;
+  score?: number;
+  opponentScore?: number;
+  opponent?: string;
+  profileId?: string;
+}
+
+export interface LoadProfile {
+  id: string;
+  name: string;
+  durationSeconds: number;
+  giftsPerMinute: number;
+  chatsPerMinute: number;
+  joinsPerMinute: number;
+  likesPerMinute: number;
+  followsPerMinute: number;
+  maxGiftCount: number;
+  userPoolSize: number;
+}
+
+export interface SimulatorState {
+  mode: 'scenario' | 'load';
+  name: string;
+  startedAt: number;
+  durationMs: number;
+  emitted: number;
+}
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'waiting' | 'error';
+
+export interface RoomState {
+  room: string;
+  status: ConnectionStatus;
+  info: RoomInfo | null;
+  reconnect: ReconnectState | null;
+}
 
 
 const electronAPI = {
@@ -61,20 +476,78 @@ const electronAPI = {
   setGiftSortOrder: (order: 'asc' | 'desc' | 'none'): Promise<boolean> => ipcRenderer.invoke('settings:setGiftSortOrder', order),
 
   
-  connect: (username: string): Promise<any> => ipcRenderer.invoke('tiktok:connect', username),
-  disconnect: (): Promise<boolean> => ipcRenderer.invoke('tiktok:disconnect'),
-  getStatus: (): Promise<ConnectionStatus> => ipcRenderer.invoke('tiktok:getStatus'),
+  connect: (username: string): Promise<RoomInfo> => ipcRenderer.invoke('tiktok:connect', username),
+  disconnect: (room?: string): Promise<boolean> => ipcRenderer.invoke('tiktok:disconnect', room),
+  getStatus: (room: string): Promise<ConnectionStatus> => ipcRenderer.invoke('tiktok:getStatus', room),
+  getRooms: (): Promise<RoomState[]> => ipcRenderer.invoke('tiktok:getRooms'),
+  getReconnectSettings: (): Promise<ReconnectSettings> => ipcRenderer.invoke('reconnect:get'),
+  setReconnectSettings: (settings: ReconnectSettings): Promise<boolean> => ipcRenderer.invoke('reconnect:set', settings),
+  getDedupSettings: (): Promise<DedupSettings> => ipcRenderer.invoke('dedup:get'),
+  setDedupSettings: (settings: DedupSettings): Promise<boolean> => ipcRenderer.invoke('dedup:set', settings),
+  getDedupStats: (): Promise<DedupStats> => ipcRenderer.invoke('dedup:getStats'),
+  resetDedupStats: (): Promise<boolean> => ipcRenderer.invoke('dedup:resetStats'),
+  getGiftCooldownSettings: (): Promise<GiftCooldownSettings> => ipcRenderer.invoke('cooldown:get'),
+  setGiftCooldownSettings: (settings: GiftCooldownSettings): Promise<boolean> => ipcRenderer.invoke('cooldown:set', settings),
   fetchGifts: (): Promise<any[]> => ipcRenderer.invoke('tiktok:fetchGifts'),
+  refreshGifts: (): Promise<GiftCatalogRefresh | undefined> => ipcRenderer.invoke('tiktok:refreshGifts'),
+  clearNewGifts: (): Promise<CachedGift[]> => ipcRenderer.invoke('tiktok:clearNewGifts'),
+
+  
+  setAudioMapping: (mapping: GiftAudioMapping, profileId?: string): Promise<boolean> => ipcRenderer.invoke('audio:setMapping', mapping, profileId),
+  removeAudioMapping: (giftId: string, profileId?: string): Promise<boolean> => ipcRenderer.invoke('audio:removeMapping', giftId, profileId),
+  getAudioMappings: (profileId?: string): Promise<Record<string, GiftAudioMapping>> => ipcRenderer.invoke('audio:getMappings', profileId),
+
+  
+  getDiamondTiers: (): Promise<Record<string, DiamondTier>> => ipcRenderer.invoke('diamondTiers:list'),
+  setDiamondTier: (tier: DiamondTier): Promise<boolean> => ipcRenderer.invoke('diamondTiers:set', tier),
+  removeDiamondTier: (id: string): Promise<boolean> => ipcRenderer.invoke('diamondTiers:remove', id),
 
   
-  setAudioMapping: (mapping: GiftAudioMapping): Promise<boolean> => ipcRenderer.invoke('audio:setMapping', mapping),
-  removeAudioMapping: (giftId: string): Promise<boolean> => ipcRenderer.invoke('audio:removeMapping', giftId),
-  getAudioMappings: (): Promise<Record<string, GiftAudioMapping>> => ipcRenderer.invoke('audio:getMappings'),
+  getMappingProfiles: (): Promise<Record<string, MappingProfile>> => ipcRenderer.invoke('profiles:list'),
+  setMappingProfile: (profile: MappingProfile): Promise<boolean> => ipcRenderer.invoke('profiles:set', profile),
+  removeMappingProfile: (id: string): Promise<boolean> => ipcRenderer.invoke('profiles:remove', id),
+  getRoomProfiles: (): Promise<Record<string, string>> => ipcRenderer.invoke('profiles:getRoomProfiles'),
+  setRoomProfile: (room: string, profileId: string): Promise<boolean> => ipcRenderer.invoke('profiles:setRoomProfile', room, profileId),
   selectAudioFile: (): Promise<string | null> => ipcRenderer.invoke('audio:selectFile'),
   renameAudioFile: (id: string, newName: string): Promise<boolean> => ipcRenderer.invoke('audioLibrary:rename', id, newName),
   setAudioVolume: (id: string, volume: number): Promise<boolean> => ipcRenderer.invoke('audioLibrary:setVolume', id, volume),
 
   
+  getChatCommands: (): Promise<Record<string, ChatCommand>> => ipcRenderer.invoke('chatCommands:list'),
+  setChatCommand: (command: ChatCommand): Promise<boolean> => ipcRenderer.invoke('chatCommands:set', command),
+  removeChatCommand: (id: string): Promise<boolean> => ipcRenderer.invoke('chatCommands:remove', id),
+  getEventMappings: (): Promise<Partial<Record<EventTriggerType, EventAudioMapping>>> => ipcRenderer.invoke('eventMappings:list'),
+  setEventMapping: (mapping: EventAudioMapping): Promise<boolean> => ipcRenderer.invoke('eventMappings:set', mapping),
+  getLikeMilestones: (): Promise<LikeMilestoneSettings> => ipcRenderer.invoke('likeMilestones:get'),
+  setLikeMilestones: (settings: LikeMilestoneSettings): Promise<boolean> => ipcRenderer.invoke('likeMilestones:set', settings),
+  getViewerMilestones: (): Promise<ViewerMilestoneSettings> => ipcRenderer.invoke('viewerMilestones:get'),
+  setViewerMilestones: (settings: ViewerMilestoneSettings): Promise<boolean> => ipcRenderer.invoke('viewerMilestones:set', settings),
+  getVipEntrances: (): Promise<Record<string, VipEntrance>> => ipcRenderer.invoke('vipEntrances:list'),
+  setVipEntrance: (entrance: VipEntrance): Promise<boolean> => ipcRenderer.invoke('vipEntrances:set', entrance),
+  removeVipEntrance: (id: string): Promise<boolean> => ipcRenderer.invoke('vipEntrances:remove', id),
+  getUserAccessList: (): Promise<Record<string, UserAccessEntry>> => ipcRenderer.invoke('userAccess:list'),
+  setUserAccessEntry: (entry: UserAccessEntry): Promise<boolean> => ipcRenderer.invoke('userAccess:set', entry),
+  removeUserAccessEntry: (id: string): Promise<boolean> => ipcRenderer.invoke('userAccess:remove', id),
+  getUserAccessSettings: (): Promise<UserAccessSettings> => ipcRenderer.invoke('userAccess:getSettings'),
+  setUserAccessSettings: (settings: UserAccessSettings): Promise<boolean> => ipcRenderer.invoke('userAccess:setSettings', settings),
+  getLeaderboard: (scope: LeaderboardScope, limit?: number): Promise<LeaderboardEntry[]> => ipcRenderer.invoke('leaderboard:get', scope, limit),
+  resetLeaderboard: (scope: LeaderboardScope): Promise<boolean> => ipcRenderer.invoke('leaderboard:reset', scope),
+  getLeaderboardSettings: (): Promise<LeaderboardSettings> => ipcRenderer.invoke('leaderboard:getSettings'),
+  setLeaderboardSettings: (settings: LeaderboardSettings): Promise<boolean> => ipcRenderer.invoke('leaderboard:setSettings', settings),
+  getDiamondGoal: (): Promise<DiamondGoalSettings> => ipcRenderer.invoke('goal:get'),
+  setDiamondGoal: (settings: DiamondGoalSettings): Promise<boolean> => ipcRenderer.invoke('goal:set', settings),
+  getDiamondGoalState: (): Promise<DiamondGoalState> => ipcRenderer.invoke('goal:getState'),
+  setDiamondGoalProgress: (progress: number): Promise<boolean> => ipcRenderer.invoke('goal:setProgress', progress),
+
+  
+  listSessions: (): Promise<SessionSummary[]> => ipcRenderer.invoke('sessions:list'),
+  openSession: (id: string): Promise<{ summary: SessionSummary; records: SessionRecord[] } | null> => ipcRenderer.invoke('sessions:open', id),
+  deleteSession: (id: string): Promise<boolean> => ipcRenderer.invoke('sessions:delete', id),
+  startReplay: (sessionId: string, options: ReplayOptions): Promise<ReplayState> => ipcRenderer.invoke('replay:start', sessionId, options),
+  stopReplay: (): Promise<boolean> => ipcRenderer.invoke('replay:stop'),
+  getReplayState: (): Promise<ReplayState | null> => ipcRenderer.invoke('replay:getState'),
+
+  
   importAudioFile: (): Promise<any> => ipcRenderer.invoke('audioLibrary:import'),
   listAudioFiles: (): Promise<any[]> => ipcRenderer.invoke('audioLibrary:list'),
   deleteAudioFile: (filename: string): Promise<boolean> => ipcRenderer.invoke('audioLibrary:delete', filename),
@@ -83,11 +556,31 @@ const electronAPI = {
   getOverlayUrl: (): Promise<string> => ipcRenderer.invoke('overlay:getUrl'),
   getOverlayConnectedCount: (): Promise<number> => ipcRenderer.invoke('overlay:getConnectedCount'),
   getOverlayQueueSize: (): Promise<number> => ipcRenderer.invoke('overlay:getQueueSize'),
-  getOverlayQueueProgress: (): Promise<{ current: number; total: number; remaining: number; estimatedSeconds: number }> => ipcRenderer.invoke('overlay:getQueueProgress'),
+  getOverlayQueueProgress: (): Promise<{ current: number; total: number; remaining: number; estimatedSeconds: number; dropped: number }> => ipcRenderer.invoke('overlay:getQueueProgress'),
+  getQueueLimits: (): Promise<QueueLimitSettings> => ipcRenderer.invoke('overlay:getQueueLimits'),
+  setQueueLimits: (settings: QueueLimitSettings): Promise<boolean> => ipcRenderer.invoke('overlay:setQueueLimits', settings),
+  getGiftTts: (): Promise<GiftTtsSettings> => ipcRenderer.invoke('tts:getGift'),
+  setGiftTts: (settings: GiftTtsSettings): Promise<boolean> => ipcRenderer.invoke('tts:setGift', settings),
+  testTts: (text: string, voice: TtsVoiceSettings): Promise<boolean> => ipcRenderer.invoke('tts:test', text, voice),
+  getChatTts: (): Promise<ChatTtsSettings> => ipcRenderer.invoke('chatTts:get'),
+  setChatTts: (settings: ChatTtsSettings): Promise<boolean> => ipcRenderer.invoke('chatTts:set', settings),
+  getChatTtsPending: (): Promise<ChatTtsItem[]> => ipcRenderer.invoke('chatTts:getPending'),
+  skipChatTts: (id: string): Promise<boolean> => ipcRenderer.invoke('chatTts:skip', id),
+  getWordFilter: (): Promise<WordFilterSettings> => ipcRenderer.invoke('wordFilter:get'),
+  setWordFilter: (settings: WordFilterSettings): Promise<boolean> => ipcRenderer.invoke('wordFilter:set', settings),
+  testWordFilter: (text: string, settings?: WordFilterSettings): Promise<WordFilterResult> => ipcRenderer.invoke('wordFilter:test', text, settings),
   clearOverlayQueue: (): Promise<boolean> => ipcRenderer.invoke('overlay:clearQueue'),
 
   
-  triggerTestGift: (giftName: string): Promise<boolean> => ipcRenderer.invoke('test:triggerGift', giftName),
+  getSimulatorState: (): Promise<SimulatorState | null> => ipcRenderer.invoke('simulator:getState'),
+  listScenarios: (): Promise<string[]> => ipcRenderer.invoke('simulator:listScenarios'),
+  importScenario: (): Promise<string | null> => ipcRenderer.invoke('simulator:importScenario'),
+  openScenariosFolder: (): Promise<boolean> => ipcRenderer.invoke('simulator:openScenariosFolder'),
+  runScenario: (name: string): Promise<SimulatorState> => ipcRenderer.invoke('simulator:runScenario', name),
+  getLoadProfiles: (): Promise<LoadProfile[]> => ipcRenderer.invoke('simulator:getLoadProfiles'),
+  runLoadProfile: (profile: LoadProfile): Promise<SimulatorState> => ipcRenderer.invoke('simulator:runLoad', profile),
+  stopSimulator: (): Promise<boolean> => ipcRenderer.invoke('simulator:stop'),
+  simulateEvent: (step: SimulatedStep): Promise<boolean> => ipcRenderer.invoke('simulator:emit', step),
 
   
   on: (channel: string, callback: (...args: any[]) => void) => {
@@ -96,11 +589,32 @@ const electronAPI = {
       'tiktok:connected',
       'tiktok:disconnected',
       'tiktok:error',
+      'tiktok:reconnect',
+      'tiktok:dedupStats',
       'tiktok:gift',
+      'tiktok:giftsUpdated',
       'tiktok:chat',
       'tiktok:member',
       'tiktok:roomStats',
+      'tiktok:follow',
+      'tiktok:share',
+      'tiktok:like',
+      'tiktok:subscribe',
+      'tiktok:battleStart',
+      'tiktok:battleEnd',
+      'battle:lead',
       'audio:played',
+      'audio:suppressed',
+      'chatTts:pending',
+      'chat:commandTriggered',
+      'likes:milestone',
+      'viewers:milestone',
+      'vip:entered',
+      'leaderboard:updated',
+      'goal:updated',
+      'goal:completed',
+      'replay:progress',
+      'simulator:progress',
       'main-process-ready',
     ];
     if (validChannels.includes(channel)) {
@@ -0,0 +1,31 @@
+import { BattleEvent } from './tiktok';
+
+export type BattleLeadChange = 'taken' | 'lost';
+
+class BattleService {
+  // Side that last led each room's battle. Ties don't change it, so a tied score can't flap the triggers.
+  private leaders: Map<string, 'us' | 'them'> = new Map();
+
+  start(room: string): void {
+    this.leaders.delete(room);
+  }
+
+  end(room: string): void {
+    this.leaders.delete(room);
+  }
+
+  // Returns the lead change caused by a score update, if any
+  update(event: BattleEvent): BattleLeadChange | undefined {
+    if (event.score === event.opponentScore) return undefined;
+
+    const leader = event.score > event.opponentScore ? 'us' : 'them';
+    const previous = this.leaders.get(event.room);
+    this.leaders.set(event.room, leader);
+
+    if (leader === 'us' && previous !== 'us') return 'taken';
+    if (leader === 'them' && previous === 'us') return 'lost';
+    return undefined;
+  }
+}
+
+export const battleService = new BattleService();
@@ -0,0 +1,92 @@
+import { ChatEvent } from './tiktok';
+import { storageService, ChatCommand } from './storage';
+
+interface RoomCooldowns {
+  // Last time each command fired, keyed by command id
+  commandLastUsed: Map<string, number>;
+  // Last time each user fired a command, keyed by `commandId-userId`
+  userLastUsed: Map<string, number>;
+}
+
+class ChatCommandService {
+  // Cooldowns are kept per room so one stream's chat never holds back another's
+  private rooms: Map<string, RoomCooldowns> = new Map();
+
+  private getRoom(room: string): RoomCooldowns {
+    let cooldowns = this.rooms.get(room);
+    if (!cooldowns) {
+      cooldowns = { commandLastUsed: new Map(), userLastUsed: new Map() };
+      this.rooms.set(room, cooldowns);
+    }
+    return cooldowns;
+  }
+
+  private parse(message: string): { trigger: string; args: string } | null {
+    const trimmed = message.trim();
+    if (!trimmed) return null;
+
+    const [trigger, ...rest] = trimmed.split(/\s+/);
+    return { trigger: trigger.toLowerCase(), args: rest.join(' ') };
+  }
+
+  private matchesArgs(command: ChatCommand, args: string): boolean {
+    if (!command.argPattern) return true;
+
+    try {
+      return new RegExp(command.argPattern, 'i').test(args);
+    } catch (e) {
+      console.warn(`[ChatCommand] Invalid argument pattern for ${command.command}:`, e);
+      return false;
+    }
+  }
+
+  private isOnCooldown(cooldowns: RoomCooldowns, command: ChatCommand, userId: string, now: number): boolean {
+    const lastUsed = cooldowns.commandLastUsed.get(command.id);
+    if (lastUsed && now - lastUsed < command.cooldownSeconds * 1000) {
+      return true;
+    }
+
+    const userLastUsed = cooldowns.userLastUsed.get(`${command.id}-${userId}`);
+    if (userLastUsed && now - userLastUsed < command.userCooldownSeconds * 1000) {
+      return true;
+    }
+
+    return false;
+  }
+
+  // Returns the command triggered by a chat message, or undefined if none matches or it is cooling down
+  match(event: ChatEvent): ChatCommand | undefined {
+    const parsed = this.parse(event.message);
+    if (!parsed) return undefined;
+
+    const commands = Object.values(storageService.getAllChatCommands());
+    const cooldowns = this.getRoom(event.room);
+
+    for (const command of commands) {
+      if (!command.enabled || command.audioFiles.length === 0) continue;
+
+      const names = [command.command, ...command.aliases].map(name => name.trim().toLowerCase());
+      if (!names.includes(parsed.trigger)) continue;
+      if (!this.matchesArgs(command, parsed.args)) continue;
+
+      const now = Date.now();
+      if (this.isOnCooldown(cooldowns, command, event.userId, now)) {
+        console.log(`[ChatCommand] ${command.command} from ${event.nickname} ignored (cooldown)`);
+        return undefined;
+      }
+
+      cooldowns.commandLastUsed.set(command.id, now);
+      cooldowns.userLastUsed.set(`${command.id}-${event.userId}`, now);
+      return command;
+    }
+
+    return undefined;
+  }
+
+  // Clears one room's cooldowns when it (re)connects, leaving the other rooms alone
+  reset(room: string): void {
+    this.rooms.delete(room);
+  }
+}
+
+export const chatCommandService = new ChatCommandService();
@@ -0,0 +1,98 @@
+import { ChatEvent } from './tiktok';
+import { ChatTtsSettings } from './storage';
+
+// A chat message waiting on the overlay queue to be read
+export interface ChatTtsItem {
+  id: string;
+  room: string;
+  nickname: string;
+  message: string;
+  queuedAt: number;
+}
+
+// Why a chat message wasn't read
+export type ChatTtsSkipReason = 'audience' | 'link' | 'command' | 'tooLong' | 'backlog';
+
+interface AudienceSession {
+  roomId: string;
+  // User ids that gifted or followed during this session
+  gifters: Set<string>;
+  followers: Set<string>;
+}
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[\w-]+\.(com|net|org|io|gg|tv|ly|me|br|co)\b/i;
+const COMMAND_PATTERN = /^[!/]\w/;
+
+class ChatTtsService {
+  private sessions: Map<string, AudienceSession> = new Map();
+  private pending: ChatTtsItem[] = [];
+
+  startSession(room: string, roomId: string): void {
+    const existing = this.sessions.get(room);
+    if (existing && roomId && roomId === existing.roomId) return;
+
+    this.sessions.set(room, { roomId, gifters: new Set(), followers: new Set() });
+  }
+
+  private getSession(room: string): AudienceSession {
+    let session = this.sessions.get(room);
+    if (!session) {
+      session = { roomId: '', gifters: new Set(), followers: new Set() };
+      this.sessions.set(room, session);
+    }
+    return session;
+  }
+
+  addGifter(room: string, userId: string): void {
+    if (userId) this.getSession(room).gifters.add(userId);
+  }
+
+  addFollower(room: string, userId: string): void {
+    if (userId) this.getSession(room).followers.add(userId);
+  }
+
+  private inAudience(event: ChatEvent, settings: ChatTtsSettings): boolean {
+    const session = this.getSession(event.room);
+    const isGifter = Boolean(event.isGifter) || session.gifters.has(event.userId);
+
+    switch (settings.audience) {
+      case 'gifters':
+        return isGifter;
+      case 'followers':
+        return Boolean(event.isFollower) || session.followers.has(event.userId) || isGifter;
+      default:
+        return true;
+    }
+  }
+
+  // Returns why a message shouldn't be read, or undefined when it should
+  check(event: ChatEvent, settings: ChatTtsSettings): ChatTtsSkipReason | undefined {
+    const message = event.message.trim();
+
+    if (!this.inAudience(event, settings)) return 'audience';
+    if (settings.skipCommands && COMMAND_PATTERN.test(message)) return 'command';
+    if (settings.skipLinks && LINK_PATTERN.test(message)) return 'link';
+    if (settings.maxLength > 0 && message.length > settings.maxLength) return 'tooLong';
+    if (settings.maxBacklog > 0 && this.pending.length >= settings.maxBacklog) return 'backlog';
+    return undefined;
+  }
+
+  add(item: ChatTtsItem): void {
+    this.pending.push(item);
+  }
+
+  // Returns whether the item was still pending
+  remove(id: string): boolean {
+    const index = this.pending.findIndex(item => item.id === id);
+    if (index === -1) return false;
+
+    this.pending.splice(index, 1);
+    return true;
+  }
+
+  getPending(): ChatTtsItem[] {
+    return [...this.pending];
+  }
+}
+
+export const chatTtsService = new ChatTtsService();
@@ -0,0 +1,92 @@
+import { storageService } from './storage';
+import { GiftEvent } from './tiktok';
+
+export interface DiamondGoalState {
+  enabled: boolean;
+  title: string;
+  target: number;
+  progress: number;
+}
+
+export interface DiamondGoalCompletion {
+  room: string;
+  target: number;
+  progress: number;
+  message: string;
+}
+
+// Progress is written at most this often instead of on every gift
+const SAVE_DELAY_MS = 5000;
+
+class DiamondGoalService {
+  private progress: number | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  private getProgress(): number {
+    if (this.progress === null) {
+      this.progress = storageService.getDiamondGoalProgress();
+    }
+    return this.progress;
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DELAY_MS);
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (this.progress !== null) {
+      storageService.setDiamondGoalProgress(this.progress);
+    }
+  }
+
+  getState(): DiamondGoalState {
+    const settings = storageService.getDiamondGoal();
+    return {
+      enabled: settings.enabled,
+      title: settings.title,
+      target: settings.target,
+      progress: this.getProgress(),
+    };
+  }
+
+  // Adds a finished gift and returns the completion when it is the gift that reaches the target
+  addGift(event: GiftEvent): DiamondGoalCompletion | undefined {
+    const settings = storageService.getDiamondGoal();
+    if (!settings.enabled) return undefined;
+
+    const perGift = event.diamondCount || storageService.getGiftDiamonds(event.giftId) || 0;
+    const diamonds = perGift * event.giftCount;
+    if (diamonds <= 0) return undefined;
+
+    const previous = this.getProgress();
+    this.progress = previous + diamonds;
+    this.scheduleSave();
+
+    if (settings.target <= 0 || previous >= settings.target || this.progress < settings.target) {
+      return undefined;
+    }
+
+    return {
+      room: event.room,
+      target: settings.target,
+      progress: this.progress,
+      message: settings.message.replace(/\{target\}/g, settings.target.toLocaleString('en-US')),
+    };
+  }
+
+  // Manual correction from the editor, e.g. to carry over diamonds from before the app was open
+  setProgress(progress: number): void {
+    this.progress = Math.max(0, Math.round(progress));
+    this.flush();
+  }
+}
+
+export const diamondGoalService = new DiamondGoalService();
@@ -0,0 +1,76 @@
+import { tiktokService, AvailableGift } from './tiktok';
+import { storageService, CachedGift } from './storage';
+
+export interface GiftCatalogRefresh {
+  gifts: CachedGift[];
+  // Gifts seen for the first time in this refresh
+  added: number;
+  // Gifts that were available before and are missing from this refresh
+  missing: number;
+  updatedAt: number;
+}
+
+function toCachedGift(raw: AvailableGift): CachedGift {
+  return {
+    id: raw.id,
+    name: raw.name,
+    diamondCount: raw.diamondCount || raw.diamond_count || 0,
+    imageUrl: raw.image?.url_list?.[0] || '',
+  };
+}
+
+class GiftCatalogService {
+  // Fetches the room's gift list and merges it into the cache. Gifts that disappear are kept
+  // and marked unavailable, so seasonal gifts stay mappable. Returns undefined when nothing
+  // could be fetched, e.g. no room is connected.
+  async refresh(): Promise<GiftCatalogRefresh | undefined> {
+    const rawGifts = await tiktokService.fetchAvailableGifts();
+    if (rawGifts.length === 0) return undefined;
+
+    const fetched = new Map<number, CachedGift>();
+    for (const raw of rawGifts) {
+      const gift = toCachedGift(raw);
+      if (!fetched.has(gift.id)) fetched.set(gift.id, gift);
+    }
+
+    const cached = storageService.getCachedGifts();
+    // The first load has nothing to compare against, so nothing is flagged new
+    const firstLoad = cached.length === 0;
+    let added = 0;
+    let missing = 0;
+
+    const gifts: CachedGift[] = cached.map((gift) => {
+      const fresh = fetched.get(gift.id);
+      if (!fresh) {
+        if (!gift.unavailable) missing++;
+        return { ...gift, unavailable: true };
+      }
+
+      fetched.delete(gift.id);
+      return gift.isNew ? { ...fresh, isNew: true } : fresh;
+    });
+
+    for (const gift of fetched.values()) {
+      if (firstLoad) {
+        gifts.push(gift);
+      } else {
+        gifts.push({ ...gift, isNew: true });
+        added++;
+      }
+    }
+
+    const updatedAt = Date.now();
+    storageService.setCachedGifts(gifts);
+    storageService.setGiftCatalogUpdatedAt(updatedAt);
+    return { gifts, added, missing, updatedAt };
+  }
+
+  // Dismisses the new flag on every gift
+  clearNew(): CachedGift[] {
+    const gifts = storageService.getCachedGifts().map(gift => ({ ...gift, isNew: false }));
+    storageService.setCachedGifts(gifts);
+    return gifts;
+  }
+}
+
+export const giftCatalogService = new GiftCatalogService();
@@ -0,0 +1,94 @@
+import { GiftEvent } from './tiktok';
+import { storageService, GiftAudioMapping } from './storage';
+
+const USER_WINDOW_MS = 60_000;
+// Matches the TikTok service's streak timeout: a streak silent for longer counts as over
+const STREAK_TIMEOUT_MS = 10_000;
+
+// Why a gift sound was held back
+export type CooldownReason = 'mapping' | 'user';
+
+export interface CooldownResult {
+  // Sounds that may play, at most the number asked for
+  plays: number;
+  // What held the sounds back when none may play
+  reason?: CooldownReason;
+  // True when this streak's suppression was already reported by an earlier update
+  reported?: boolean;
+}
+
+interface StreakCooldown {
+  // Set when the gift cooldown held the streak back at its start
+  held?: CooldownReason;
+  reported: boolean;
+  lastSeen: number;
+}
+
+class GiftCooldownService {
+  // Last time each mapping played, keyed by gift id so it holds across rooms and profiles
+  private mappingLastPlayed: Map<string, number> = new Map();
+  // Recent play times per user, one per sound, pruned to the last minute
+  private userPlays: Map<string, number[]> = new Map();
+  // The gift cooldown is checked once per streak, keyed by `room-userId-giftId`
+  private streaks: Map<string, StreakCooldown> = new Map();
+
+  private recentUserPlays(userId: string, now: number): number[] {
+    const plays = (this.userPlays.get(userId) || []).filter(time => now - time < USER_WINDOW_MS);
+    if (plays.length > 0) {
+      this.userPlays.set(userId, plays);
+    } else {
+      this.userPlays.delete(userId);
+    }
+    return plays;
+  }
+
+  // Returns the streak's cooldown state, starting a new one (and checking the gift cooldown) when
+  // this is the first update of the streak to play anything
+  private getStreak(mapping: GiftAudioMapping, event: GiftEvent, now: number): StreakCooldown {
+    for (const [key, streak] of this.streaks) {
+      if (now - streak.lastSeen > STREAK_TIMEOUT_MS) this.streaks.delete(key);
+    }
+
+    const key = `${event.room}-${event.userId}-${event.giftId}`;
+    let streak = this.streaks.get(key);
+    if (!streak || event.isStreakStart) {
+      const lastPlayed = this.mappingLastPlayed.get(mapping.giftId);
+      const held = mapping.cooldownSeconds && lastPlayed && now - lastPlayed < mapping.cooldownSeconds * 1000 ? 'mapping' : undefined;
+      if (!held) this.mappingLastPlayed.set(mapping.giftId, now);
+      streak = { held, reported: false, lastSeen: now };
+    }
+
+    streak.lastSeen = now;
+    if (event.isComboEnd) {
+      this.streaks.delete(key);
+    } else {
+      this.streaks.set(key, streak);
+    }
+    return streak;
+  }
+
+  // Records the sounds that may play out of `count`, or the cooldown that holds them all back
+  consume(mapping: GiftAudioMapping, event: GiftEvent, count: number): CooldownResult {
+    const now = Date.now();
+    const streak = this.getStreak(mapping, event, now);
+
+    let reason: CooldownReason | undefined = streak.held;
+    let plays = 0;
+    if (!reason) {
+      const { userMaxPlaysPerMinute } = storageService.getGiftCooldownSettings();
+      const recent = this.recentUserPlays(event.userId, now);
+      plays = userMaxPlaysPerMinute > 0 ? Math.min(count, userMaxPlaysPerMinute - recent.length) : count;
+      if (plays > 0) {
+        this.userPlays.set(event.userId, [...recent, ...Array<number>(plays).fill(now)]);
+        return { plays };
+      }
+      reason = 'user';
+    }
+
+    const reported = streak.reported;
+    streak.reported = true;
+    return { plays: 0, reason, reported };
+  }
+}
+
+export const giftCooldownService = new GiftCooldownService();
@@ -0,0 +1,103 @@
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import { CachedGift } from './storage';
+
+const DOWNLOAD_TIMEOUT_MS = 15000;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+};
+
+class GiftImageService {
+  private imagesPath: string = '';
+  // Gift id -> cached image filename
+  private files: Map<string, string> = new Map();
+  // Gift ids being downloaded, so overlapping refreshes don't fetch the same image twice
+  private downloading: Set<string> = new Set();
+
+  constructor() {
+    this.init();
+  }
+
+  private init() {
+    try {
+      // Next to the audio library, so both live under the same app folder
+      this.imagesPath = path.join(app.getPath('documents'), 'tiktokAudioGift', 'gifts');
+      if (!fs.existsSync(this.imagesPath)) {
+        fs.mkdirSync(this.imagesPath, { recursive: true });
+      }
+
+      for (const file of fs.readdirSync(this.imagesPath)) {
+        const ext = path.extname(file);
+        if (Object.values(IMAGE_EXTENSIONS).includes(ext)) {
+          this.files.set(path.basename(file, ext), file);
+        }
+      }
+    } catch (e) {
+      console.error('Failed to initialize GiftImageService:', e);
+    }
+  }
+
+  ensureImagesDir(): string {
+    if (!this.imagesPath) {
+      this.init();
+    }
+    if (!fs.existsSync(this.imagesPath)) {
+      fs.mkdirSync(this.imagesPath, { recursive: true });
+    }
+    return this.imagesPath;
+  }
+
+  getFilename(giftId: string | number): string | undefined {
+    return this.files.get(String(giftId));
+  }
+
+  private async download(giftId: string, url: string): Promise<boolean> {
+    try {
+      const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+      if (!response.ok) {
+        console.warn(`[GiftImages] Download of gift ${giftId} failed: HTTP ${response.status}`);
+        return false;
+      }
+
+      const contentType = (response.headers.get('content-type') || '').split(';')[0].trim();
+      const urlExt = path.extname(new URL(url).pathname).toLowerCase();
+      const ext = IMAGE_EXTENSIONS[contentType] || (Object.values(IMAGE_EXTENSIONS).includes(urlExt) ? urlExt : '.png');
+      const filename = `${giftId}${ext}`;
+
+      const data = Buffer.from(await response.arrayBuffer());
+      await fs.promises.writeFile(path.join(this.ensureImagesDir(), filename), data);
+      this.files.set(giftId, filename);
+      return true;
+    } catch (e) {
+      console.warn(`[GiftImages] Download of gift ${giftId} failed:`, e);
+      return false;
+    }
+  }
+
+  // Downloads the images of gifts that aren't cached yet, one at a time. Returns how many were saved.
+  async cacheGifts(gifts: CachedGift[]): Promise<number> {
+    let saved = 0;
+
+    for (const gift of gifts) {
+      const giftId = String(gift.id);
+      if (!gift.imageUrl || this.files.has(giftId) || this.downloading.has(giftId)) continue;
+
+      this.downloading.add(giftId);
+      try {
+        if (await this.download(giftId, gift.imageUrl)) saved++;
+      } finally {
+        this.downloading.delete(giftId);
+      }
+    }
+
+    if (saved > 0) console.log(`[GiftImages] Cached ${saved} gift images`);
+    return saved;
+  }
+}
+
+export const giftImageService = new GiftImageService();
@@ -0,0 +1,137 @@
+import { storageService, LeaderboardEntry } from './storage';
+import { GiftEvent } from './tiktok';
+
+export type LeaderboardScope = 'session' | 'allTime';
+
+interface LeaderboardSession {
+  roomId: string;
+  entries: Map<string, LeaderboardEntry>;
+}
+
+// All-time totals are written at most this often instead of on every gift
+const SAVE_DELAY_MS = 5000;
+
+class LeaderboardService {
+  // Session totals per connected room key
+  private sessions: Map<string, LeaderboardSession> = new Map();
+  private allTime: Record<string, LeaderboardEntry> | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  // Keeps the totals when reconnecting to the same live, resets them for a new one
+  startSession(room: string, roomId: string): void {
+    const session = this.sessions.get(room);
+    if (session && roomId && roomId === session.roomId) return;
+
+    this.sessions.set(room, { roomId, entries: new Map() });
+  }
+
+  // Drops a removed room's totals from the session board; all rooms when none is given
+  removeSession(room?: string): void {
+    if (room === undefined) {
+      this.sessions.clear();
+    } else {
+      this.sessions.delete(room);
+    }
+  }
+
+  private getAllTime(): Record<string, LeaderboardEntry> {
+    if (!this.allTime) {
+      this.allTime = storageService.getLeaderboardAllTime();
+    }
+    return this.allTime;
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DELAY_MS);
+  }
+
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (this.allTime) {
+      storageService.setLeaderboardAllTime(this.allTime);
+    }
+  }
+
+  private addTo(existing: LeaderboardEntry | undefined, event: GiftEvent, diamonds: number): LeaderboardEntry {
+    return {
+      userId: event.userId,
+      username: event.username || existing?.username || '',
+      // Nicknames change; keep the latest one
+      nickname: event.nickname || existing?.nickname || event.username,
+      diamonds: (existing?.diamonds || 0) + diamonds,
+      gifts: (existing?.gifts || 0) + event.giftCount,
+      lastGiftAt: Date.now(),
+    };
+  }
+
+  // Counts a finished gift. Simulated gifts only count towards the session.
+  addGift(event: GiftEvent, options: { allTime: boolean }): void {
+    if (!event.userId) return;
+
+    const perGift = event.diamondCount || storageService.getGiftDiamonds(event.giftId) || 0;
+    const diamonds = perGift * event.giftCount;
+
+    let session = this.sessions.get(event.room);
+    if (!session) {
+      session = { roomId: '', entries: new Map() };
+      this.sessions.set(event.room, session);
+    }
+    session.entries.set(event.userId, this.addTo(session.entries.get(event.userId), event, diamonds));
+
+    if (options.allTime && storageService.getLeaderboardSettings().trackAllTime) {
+      const allTime = this.getAllTime();
+      allTime[event.userId] = this.addTo(allTime[event.userId], event, diamonds);
+      this.scheduleSave();
+    }
+  }
+
+  // The session board adds up every connected room, so a viewer gifting in two co-host rooms appears once
+  getTop(scope: LeaderboardScope, limit: number = 0): LeaderboardEntry[] {
+    let entries: LeaderboardEntry[];
+
+    if (scope === 'allTime') {
+      entries = Object.values(this.getAllTime());
+    } else {
+      const merged = new Map<string, LeaderboardEntry>();
+      for (const session of this.sessions.values()) {
+        for (const entry of session.entries.values()) {
+          const existing = merged.get(entry.userId);
+          merged.set(entry.userId, existing
+            ? {
+                ...entry,
+                diamonds: existing.diamonds + entry.diamonds,
+                gifts: existing.gifts + entry.gifts,
+                lastGiftAt: Math.max(existing.lastGiftAt, entry.lastGiftAt),
+              }
+            : entry);
+        }
+      }
+      entries = [...merged.values()];
+    }
+
+    // Ties go to whoever got there first
+    entries.sort((a, b) => b.diamonds - a.diamonds || b.gifts - a.gifts || a.lastGiftAt - b.lastGiftAt);
+    return limit > 0 ? entries.slice(0, limit) : entries;
+  }
+
+  reset(scope: LeaderboardScope): void {
+    if (scope === 'allTime') {
+      this.allTime = {};
+      this.flush();
+      return;
+    }
+
+    for (const session of this.sessions.values()) {
+      session.entries.clear();
+    }
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
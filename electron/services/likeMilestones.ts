@@ -0,0 +1,71 @@
+import { storageService } from './storage';
+
+export interface LikeMilestone {
+  room: string;
+  milestone: number;
+  total: number;
+  message: string;
+}
+
+interface LikeSession {
+  roomId: string;
+  total: number;
+}
+
+class LikeMilestoneService {
+  // Running totals per connected room key
+  private sessions: Map<string, LikeSession> = new Map();
+
+  // Keeps the running total when reconnecting to the same live, resets it for a new one
+  startSession(room: string, roomId: string): void {
+    const session = this.sessions.get(room);
+    if (session && roomId && roomId === session.roomId) {
+      console.log(`[Likes] Resuming session for @${room} (${roomId}) at ${session.total} likes`);
+      return;
+    }
+
+    this.sessions.set(room, { roomId, total: 0 });
+  }
+
+  getSessionTotal(room: string): number {
+    return this.sessions.get(room)?.total || 0;
+  }
+
+  // Adds a batch of likes and returns the highest milestone crossed by it, if any
+  addLikes(room: string, likeCount: number): LikeMilestone | undefined {
+    if (likeCount <= 0) return undefined;
+
+    let session = this.sessions.get(room);
+    if (!session) {
+      session = { roomId: '', total: 0 };
+      this.sessions.set(room, session);
+    }
+
+    const previous = session.total;
+    session.total += likeCount;
+
+    const settings = storageService.getLikeMilestones();
+    if (!settings.enabled) return undefined;
+
+    const crossed: number[] = settings.totals.filter(total => total > previous && total <= session.total);
+
+    if (settings.everyN > 0) {
+      const step = Math.floor(session.total / settings.everyN) * settings.everyN;
+      if (step > previous) {
+        crossed.push(step);
+      }
+    }
+
+    if (crossed.length === 0) return undefined;
+
+    const milestone = Math.max(...crossed);
+    return {
+      room,
+      milestone,
+      total: session.total,
+      message: settings.message.replace(/\{total\}/g, milestone.toLocaleString('en-US')),
+    };
+  }
+}
+
+export const likeMilestoneService = new LikeMilestoneService();
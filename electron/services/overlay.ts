@@ -3,10 +3,13 @@ import { WebSocketServer, WebSocket } from 'ws';
 import { createServer } from 'http';
 import { EventEmitter } from 'events';
 import path from 'path';
+import { randomUUID } from 'crypto';
+import { QueueLimitSettings, TtsVoiceSettings } from './storage';
 
 export interface PlayAudioMessage {
   type: 'play-audio';
   data: {
+    id: string;
     audioUrl: string;
     volume: number;
     giftName: string;
@@ -15,29 +18,56 @@ export interface PlayAudioMessage {
   };
 }
 
+export interface SpeakMessage {
+  type: 'speak';
+  data: {
+    id: string;
+    text: string;
+    voice: string;
+    rate: number;
+    pitch: number;
+    volume: number;
+  };
+}
+
 export interface OverlayMessage {
   type: string;
   data?: any;
 }
 
+// Widget pages connect with ?role=widget; everything else is an audio overlay
+type ClientRole = 'overlay' | 'widget';
+
+// An audio sent to the overlay that hasn't finished yet; the first one is the one playing
+interface QueuedAudio {
+  id: string;
+  triggerId: string;
+  label: string;
+  diamonds: number;
+  duration: number;
+}
+
 class OverlayServer extends EventEmitter {
   private app = express();
   private server = createServer(this.app);
   private wss: WebSocketServer | null = null;
-  private clients: Set<WebSocket> = new Set();
+  private clients: Map<WebSocket, ClientRole> = new Map();
   private port: number = 3847;
   private isRunning: boolean = false;
   // Map of audio ID to absolute file path
   private audioFiles: Map<string, string> = new Map();
-  // Track queue size and progress on server side
-  private queueSize: number = 0;
+  // Track queue and progress on server side
+  private pendingItems: QueuedAudio[] = [];
   private totalInBatch: number = 0;
   private currentPlaying: number = 0;
   // Track audio durations for time estimation
   private totalDurationPlayed: number = 0;
   private audioCount: number = 0;
-  // Track pending audio durations for estimated time
-  private pendingDurations: number[] = [];
+  // Audios dropped by the queue limits since the current batch started
+  private droppedInBatch: number = 0;
+  private queueLimits: QueueLimitSettings = { maxItems: 0, maxSeconds: 0, policy: 'dropNewest' };
+  // Last state of each widget page (leaderboard, goal), so a freshly opened page isn't empty until the next gift
+  private widgetState: Map<string, OverlayMessage> = new Map();
 
   
   registerAudioFile(audioPath: string): string {
@@ -52,7 +82,7 @@ class OverlayServer extends EventEmitter {
     return `/audio/${id}`;
   }
 
-  async start(port: number = 3847, libraryPath?: string): Promise<void> {
+  async start(port: number = 3847, libraryPath?: string, giftImagesPath?: string): Promise<void> {
     if (this.isRunning) {
       return;
     }
@@ -65,6 +95,9 @@ class OverlayServer extends EventEmitter {
     const MAX_REQUESTS = 100;
 
     this.app.use((req, res, next) => {
+        // The gift grid loads hundreds of images at once
+        if (req.path.startsWith('/gift-images/')) return next();
+
         const ip = req.ip || req.socket.remoteAddress || 'unknown';
         const now = Date.now();
         const record = rateLimit.get(ip);
@@ -147,10 +180,27 @@ class OverlayServer extends EventEmitter {
       }));
     }
 
+    // Gift images downloaded on catalog refresh, so alerts and the app don't depend on TikTok's CDN
+    if (giftImagesPath) {
+      this.app.use('/gift-images', express.static(giftImagesPath, {
+        dotfiles: 'deny',
+        index: false,
+        maxAge: '1d',
+      }));
+    }
+
     this.app.get('/', (_req: Request, res: Response) => {
       res.send(OVERLAY_HTML);
     });
 
+    this.app.get('/leaderboard', (_req: Request, res: Response) => {
+      res.send(LEADERBOARD_HTML);
+    });
+
+    this.app.get('/goal', (_req: Request, res: Response) => {
+      res.send(GOAL_HTML);
+    });
+
     // Debug diagnostic page for troubleshooting audio on other PCs
     this.app.get('/debug', (_req: Request, res: Response) => {
       res.send(DEBUG_HTML);
@@ -159,16 +209,22 @@ class OverlayServer extends EventEmitter {
     
     this.wss = new WebSocketServer({ server: this.server });
 
-    this.wss.on('connection', (ws) => {
-      console.log('Overlay client connected');
-      this.clients.add(ws);
+    this.wss.on('connection', (ws, req) => {
+      const role: ClientRole = new URL(req.url || '/', 'http://localhost').searchParams.get('role') === 'widget' ? 'widget' : 'overlay';
+      console.log(`Overlay ${role} client connected`);
+      this.clients.set(ws, role);
       this.emit('clientConnected');
 
       
       ws.send(JSON.stringify({ type: 'connected' }));
+      if (role === 'widget') {
+        for (const message of this.widgetState.values()) {
+          ws.send(JSON.stringify(message));
+        }
+      }
 
       ws.on('close', () => {
-        console.log('Overlay client disconnected');
+        console.log(`Overlay ${role} client disconnected`);
         this.clients.delete(ws);
         this.emit('clientDisconnected');
       });
@@ -178,31 +234,31 @@ class OverlayServer extends EventEmitter {
           const msg = JSON.parse(data.toString());
           // Handle queue updates from client
           if (msg.type === 'audio-ended') {
+            // Every connected overlay reports the same audio, so only the first report counts
+            const index = msg.id ? this.pendingItems.findIndex(item => item.id === msg.id) : 0;
+            if (index === -1 || this.pendingItems.length === 0) return;
+            const [ended] = this.pendingItems.splice(index, 1);
+            this.emit('itemDone', ended.id);
+
             // Track duration if provided
             if (msg.duration && typeof msg.duration === 'number') {
               this.totalDurationPlayed += msg.duration;
               this.audioCount++;
             }
-            // Remove first pending duration (FIFO)
-            if (this.pendingDurations.length > 0) {
-              this.pendingDurations.shift();
-            }
-            this.queueSize = Math.max(0, this.queueSize - 1);
             this.currentPlaying++;
             // Emit progress update
             this.emit('queueProgress', {
               current: this.currentPlaying,
               total: this.totalInBatch,
-              remaining: this.queueSize
+              remaining: this.pendingItems.length
             });
             // Reset if queue is empty
-            if (this.queueSize === 0) {
+            if (this.pendingItems.length === 0) {
               this.currentPlaying = 0;
               this.totalInBatch = 0;
               // Reset duration tracking for next batch
               this.totalDurationPlayed = 0;
               this.audioCount = 0;
-              this.pendingDurations = [];
             }
           }
         } catch (e) {
@@ -239,30 +295,116 @@ class OverlayServer extends EventEmitter {
     this.clients.clear();
   }
 
+  // Only audio overlays count, widget pages don't play anything
   getConnectedCount(): number {
-    return this.clients.size;
+    let count = 0;
+    for (const role of this.clients.values()) {
+      if (role === 'overlay') count++;
+    }
+    return count;
   }
 
   getUrl(): string {
     return `http://localhost:${this.port}`;
   }
 
-  broadcast(message: OverlayMessage): void {
+  broadcast(message: OverlayMessage, role: ClientRole = 'overlay'): void {
     const data = JSON.stringify(message);
-    this.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
+    this.clients.forEach((clientRole, client) => {
+      if (clientRole === role && client.readyState === WebSocket.OPEN) {
         client.send(data);
       }
     });
   }
 
-  playAudio(giftId: string, giftName: string, username: string, audioPath: string, volume: number, duration: number = 0): void {
+  setQueueLimits(limits: QueueLimitSettings): void {
+    this.queueLimits = limits;
+  }
+
+  private fitsQueueLimits(queue: QueuedAudio[]): boolean {
+    const { maxItems, maxSeconds } = this.queueLimits;
+    if (maxItems > 0 && queue.length > maxItems) return false;
+    // A lone audio always fits, however long it is
+    if (maxSeconds > 0 && queue.length > 1 && queue.reduce((sum, item) => sum + item.duration, 0) > maxSeconds) return false;
+    return true;
+  }
+
+  // Picks the next audio to drop among the ones still waiting (the playing one can't be pulled back)
+  private pickDrop(waiting: QueuedAudio[], queue: QueuedAudio[]): QueuedAudio {
+    switch (this.queueLimits.policy) {
+      case 'dropOldest':
+        return waiting[0];
+      case 'dropLowestDiamond':
+        // Ties drop the newest, so earlier gifts keep their turn
+        return waiting.reduce((lowest, item) => (item.diamonds <= lowest.diamonds ? item : lowest));
+      case 'collapseDuplicates': {
+        const duplicates = waiting.filter(item => queue.find(other => other.triggerId === item.triggerId) !== item);
+        return duplicates[duplicates.length - 1] || waiting[waiting.length - 1];
+      }
+      default:
+        return waiting[waiting.length - 1];
+    }
+  }
+
+  // Returns the audios to drop so the queue, with the incoming audio added, stays within the limits
+  private enforceQueueLimits(incoming: QueuedAudio): QueuedAudio[] {
+    const queue = [...this.pendingItems, incoming];
+    const drops: QueuedAudio[] = [];
+
+    while (queue.length > 1 && !this.fitsQueueLimits(queue)) {
+      const drop = this.pickDrop(queue.slice(1), queue);
+      queue.splice(queue.indexOf(drop), 1);
+      drops.push(drop);
+    }
+
+    return drops;
+  }
+
+  // Sends an item to the overlay queue; returns false when the queue limits dropped it
+  private enqueue(item: QueuedAudio, message: OverlayMessage): boolean {
+    const drops = this.enforceQueueLimits(item);
+    if (drops.length > 0) {
+      const queuedDrops = drops.filter(drop => drop !== item);
+      this.pendingItems = this.pendingItems.filter(pending => !queuedDrops.includes(pending));
+      this.totalInBatch -= queuedDrops.length;
+      this.droppedInBatch += drops.length;
+      if (queuedDrops.length > 0) {
+        this.broadcast({ type: 'drop-audio', data: { ids: queuedDrops.map(drop => drop.id) } });
+        queuedDrops.forEach(drop => this.emit('itemDone', drop.id));
+      }
+      console.log(`[Overlay] Queue limit (${this.queueLimits.policy}) dropped: ${drops.map(drop => drop.label).join(', ')}`);
+      if (queuedDrops.length < drops.length) return false;
+    }
+
+    this.broadcast(message);
+    // Track batch totals for progress
+    // Only reset if queue was empty (starting new batch)
+    const wasEmpty = this.pendingItems.length === 0;
+    this.pendingItems.push(item);
+    
+    if (wasEmpty) {
+      // Starting a new batch
+      this.totalInBatch = 1;
+      this.currentPlaying = 0;
+      this.droppedInBatch = 0;
+    } else {
+      // Adding to existing batch - increment total
+      this.totalInBatch++;
+    }
+    return true;
+  }
+
+  // Queues an audio on the overlay; returns false when the queue limits dropped it
+  playAudio(giftId: string, giftName: string, username: string, audioPath: string, volume: number, duration: number = 0, diamonds: number = 0): boolean {
+    const item: QueuedAudio = { id: randomUUID(), triggerId: giftId, label: giftName, diamonds, duration };
+
     // Register the audio file and get a URL for it
     const audioUrl = this.registerAudioFile(audioPath);
     
     const message: PlayAudioMessage = {
       type: 'play-audio',
       data: {
+        id: item.id,
         audioUrl,
         volume,
         giftName,
@@ -271,41 +413,79 @@ class OverlayServer extends EventEmitter {
       },
     };
     console.log('Broadcasting audio play:', audioUrl, 'volume:', volume, 'duration:', duration);
-    this.broadcast(message);
-    // Track batch totals for progress
-    // Only reset if queue was empty (starting new batch)
-    const wasEmpty = this.queueSize === 0;
-    this.queueSize++;
-    
-    // Track duration for time estimation
-    this.pendingDurations.push(duration);
-    
-    if (wasEmpty) {
-      // Starting a new batch
-      this.totalInBatch = 1;
-      this.currentPlaying = 0;
+    return this.enqueue(item, message);
+  }
+
+  // Queues a line of speech on the overlay, played in turn with the audios so the two never overlap.
+  // Returns the queue item id, or undefined when the queue limits dropped it.
+  speak(triggerId: string, label: string, text: string, voice: TtsVoiceSettings, diamonds: number = 0): string | undefined {
+    // Rough speaking time, so the queue estimate and time limit account for speech
+    const duration = Math.ceil(text.split(/\s+/).length / (2.5 * Math.max(0.1, voice.rate)));
+    const item: QueuedAudio = { id: randomUUID(), triggerId, label, diamonds, duration };
+
+    const message: SpeakMessage = {
+      type: 'speak',
+      data: { id: item.id, text, ...voice },
+    };
+    console.log('Broadcasting speech:', text);
+    return this.enqueue(item, message) ? item.id : undefined;
+  }
+
+  // Pulls one item out of the queue, cutting it off if it is the one playing
+  removeItem(id: string): boolean {
+    const index = this.pendingItems.findIndex(item => item.id === id);
+    if (index === -1) return false;
+
+    this.pendingItems.splice(index, 1);
+    if (index === 0) {
+      this.currentPlaying++;
     } else {
-      // Adding to existing batch - increment total
-      this.totalInBatch++;
+      this.totalInBatch--;
+    }
+    if (this.pendingItems.length === 0) {
+      this.currentPlaying = 0;
+      this.totalInBatch = 0;
     }
+
+    this.broadcast({ type: 'drop-audio', data: { ids: [id] } });
+    this.emit('itemDone', id);
+    return true;
+  }
+
+  private updateWidget(message: OverlayMessage): void {
+    this.widgetState.set(message.type, message);
+    this.broadcast(message, 'widget');
+  }
+
+  updateLeaderboard(data: { title: string; entries: Array<{ nickname: string; diamonds: number; gifts: number }> }): void {
+    this.updateWidget({ type: 'leaderboard', data });
+  }
+
+  updateGoal(data: { enabled: boolean; title: string; target: number; progress: number }): void {
+    this.updateWidget({ type: 'goal', data });
   }
 
   // Get current queue progress with time estimation
-  getQueueProgress(): { current: number; total: number; remaining: number; estimatedSeconds: number } {
+  getQueueProgress(): { current: number; total: number; remaining: number; estimatedSeconds: number; dropped: number } {
     // Calculate estimated time from pending durations
-    const estimatedSeconds = Math.round(this.pendingDurations.reduce((a, b) => a + b, 0));
+    const estimatedSeconds = Math.round(this.pendingItems.reduce((sum, item) => sum + item.duration, 0));
     return {
       current: this.currentPlaying,
       total: this.totalInBatch,
-      remaining: this.queueSize,
-      estimatedSeconds
+      remaining: this.pendingItems.length,
+      estimatedSeconds,
+      dropped: this.droppedInBatch
     };
   }
 
   
   clearQueue(): void {
     this.broadcast({ type: 'clear-queue' });
-    this.queueSize = 0; // Reset server-side queue size
+    this.pendingItems.forEach(item => this.emit('itemDone', item.id));
+    this.pendingItems = []; // Reset server-side queue
+    this.currentPlaying = 0;
+    this.totalInBatch = 0;
+    this.droppedInBatch = 0;
     console.log('[Overlay] Queue cleared');
   }
 }
@@ -385,10 +565,40 @@ const OVERLAY_HTML = `<!DOCTYPE html>
             0% { transform: scale(0.8); opacity: 1; }
             100% { transform: scale(1.8); opacity: 0; }
         }
+
+        /* Milestone / announcement banner */
+        #banner {
+            position: fixed;
+            top: 40px;
+            left: 50%;
+            transform: translate(-50%, -20px);
+            padding: 12px 28px;
+            border-radius: 12px;
+            background: rgba(15, 15, 26, 0.85);
+            color: white;
+            font-family: 'Segoe UI', sans-serif;
+            font-size: 28px;
+            font-weight: 700;
+            white-space: nowrap;
+            opacity: 0;
+            pointer-events: none;
+            transition: opacity 0.4s ease, transform 0.4s ease;
+            z-index: 50;
+        }
+        #banner.visible {
+            opacity: 1;
+            transform: translate(-50%, 0);
+        }
+        #banner img {
+            height: 36px;
+            margin-right: 10px;
+            vertical-align: middle;
+        }
     </style>
 </head>
 <body>
     <div id="status" class="disconnected">Disconnected</div>
+    <div id="banner"></div>
 
     <!-- Click-to-enable audio overlay: user clicks once to unlock AudioContext -->
     <div id="audio-enable-overlay">
@@ -401,6 +611,7 @@ const OVERLAY_HTML = `<!DOCTYPE html>
     <script>
         const status = document.getElementById('status');
         const enableOverlay = document.getElementById('audio-enable-overlay');
+        const banner = document.getElementById('banner');
         let ws = null;
         let reconnectInterval = null;
 
@@ -408,6 +619,9 @@ const OVERLAY_HTML = `<!DOCTYPE html>
         const audioQueue = [];
         let isPlaying = false;
         let currentAudio = null;
+        let currentItemId = null;
+        // Stops the item playing right now and moves on, set by playAudio/speak
+        let stopCurrent = null;
 
         // AudioContext for unlocking autoplay
         let audioCtx = null;
@@ -482,6 +696,39 @@ const OVERLAY_HTML = `<!DOCTYPE html>
         // Try auto-unlock on load
         tryAutoUnlock();
 
+        // Banner state: messages are shown one at a time
+        const bannerQueue = [];
+        let bannerTimeout = null;
+
+        function showBanner(text, imageUrl) {
+            if (!text) return;
+            bannerQueue.push({ text, imageUrl });
+            if (!bannerTimeout) {
+                nextBanner();
+            }
+        }
+
+        function nextBanner() {
+            const item = bannerQueue.shift();
+            if (!item) {
+                bannerTimeout = null;
+                return;
+            }
+            banner.textContent = '';
+            if (item.imageUrl) {
+                const img = document.createElement('img');
+                img.src = item.imageUrl;
+                img.onerror = () => img.remove();
+                banner.appendChild(img);
+            }
+            banner.appendChild(document.createTextNode(item.text));
+            banner.classList.add('visible');
+            bannerTimeout = setTimeout(() => {
+                banner.classList.remove('visible');
+                bannerTimeout = setTimeout(nextBanner, 500);
+            }, 4000);
+        }
+
         function connect() {
             ws = new WebSocket('ws://' + window.location.host);
 
@@ -517,6 +764,7 @@ const OVERLAY_HTML = `<!DOCTYPE html>
         function handleMessage(msg) {
             if (msg.type === 'play-audio') {
                 audioQueue.push({
+                    id: msg.data.id,
                     url: msg.data.audioUrl,
                     volume: msg.data.volume
                 });
@@ -528,14 +776,33 @@ const OVERLAY_HTML = `<!DOCTYPE html>
                         data: audioQueue.length + (isPlaying ? 1 : 0)
                     }));
                 }
+            } else if (msg.type === 'speak') {
+                audioQueue.push({
+                    id: msg.data.id,
+                    speech: msg.data
+                });
+                processQueue();
+            } else if (msg.type === 'drop-audio') {
+                const ids = msg.data.ids || [];
+                if (isPlaying && stopCurrent && ids.includes(currentItemId)) {
+                    stopCurrent();
+                }
+                for (let i = audioQueue.length - 1; i >= 0; i--) {
+                    if (ids.includes(audioQueue[i].id)) audioQueue.splice(i, 1);
+                }
             } else if (msg.type === 'clear-queue') {
                 audioQueue.length = 0;
                 if (currentAudio) {
                     currentAudio.pause();
                     currentAudio = null;
                 }
+                if ('speechSynthesis' in window) {
+                    speechSynthesis.cancel();
+                }
                 isPlaying = false;
                 console.log('Queue cleared');
+            } else if (msg.type === 'like-milestone' || msg.type === 'viewer-milestone' || msg.type === 'vip-entrance' || msg.type === 'gift-combo' || msg.type === 'goal-complete' || msg.type === 'event-banner') {
+                showBanner(msg.data.message, msg.data.imageUrl);
             }
         }
 
@@ -547,11 +814,57 @@ const OVERLAY_HTML = `<!DOCTYPE html>
 
             isPlaying = true;
             const item = audioQueue.shift();
+            currentItemId = item.id;
 
-            playAudio(item.url, item.volume, () => {
+            const onEnded = () => {
                 isPlaying = false;
                 setTimeout(processQueue, 100);
-            });
+            };
+
+            if (item.speech) {
+                speak(item.speech, onEnded);
+            } else {
+                playAudio(item.url, item.volume, onEnded);
+            }
+        }
+
+        function speak(speech, onEnded) {
+            let finished = false;
+            const finish = () => {
+                if (finished) return;
+                finished = true;
+                if (ws && ws.readyState === WebSocket.OPEN) {
+                    ws.send(JSON.stringify({ type: 'audio-ended', id: currentItemId }));
+                }
+                onEnded();
+            };
+
+            if (!('speechSynthesis' in window)) {
+                console.warn('[Overlay] Speech synthesis not available');
+                finish();
+                return;
+            }
+
+            const utterance = new SpeechSynthesisUtterance(speech.text);
+            const voice = speech.voice && speechSynthesis.getVoices().find(v => v.name === speech.voice);
+            if (voice) utterance.voice = voice;
+            utterance.rate = speech.rate;
+            utterance.pitch = speech.pitch;
+            utterance.volume = Math.min(1, Math.max(0, speech.volume));
+            utterance.onend = finish;
+            utterance.onerror = finish;
+            stopCurrent = () => {
+                speechSynthesis.cancel();
+                finish();
+            };
+
+            // Some browsers never fire onend for long utterances, so the queue can't stall on one
+            setTimeout(() => {
+                if (finished) return;
+                speechSynthesis.cancel();
+                finish();
+            }, 3000 + (speech.text.length * 120) / Math.max(0.1, speech.rate));
+            speechSynthesis.speak(utterance);
         }
 
         function playAudio(url, volume, onEnded) {
@@ -584,16 +897,21 @@ const OVERLAY_HTML = `<!DOCTYPE html>
                 if (ws && ws.readyState === WebSocket.OPEN) {
                     ws.send(JSON.stringify({
                         type: 'audio-ended',
+                        id: currentItemId,
                         duration: audio.duration || 0
                     }));
                 }
                 onEnded();
             };
+            stopCurrent = () => {
+                audio.pause();
+                audio.onended();
+            };
 
             audio.onerror = (e) => {
                 console.error('Audio play failed:', e);
                 if (ws && ws.readyState === WebSocket.OPEN) {
-                    ws.send(JSON.stringify({ type: 'audio-ended' }));
+                    ws.send(JSON.stringify({ type: 'audio-ended', id: currentItemId }));
                 }
                 onEnded();
             };
@@ -601,7 +919,7 @@ const OVERLAY_HTML = `<!DOCTYPE html>
             audio.play().catch(e => {
                 console.error('Audio play failed (promise):', e);
                 if (ws && ws.readyState === WebSocket.OPEN) {
-                    ws.send(JSON.stringify({ type: 'audio-ended' }));
+                    ws.send(JSON.stringify({ type: 'audio-ended', id: currentItemId }));
                 }
                 onEnded();
             });
@@ -821,3 +1139,266 @@ const DEBUG_HTML = `<!DOCTYPE html>
     </script>
 </body>
 </html>`;
+
+
+const LEADERBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Leaderboard - TikTok Audio Gift</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+            background: transparent;
+            overflow: hidden;
+            font-family: 'Segoe UI', sans-serif;
+            color: white;
+            padding: 16px;
+        }
+        #board {
+            width: 320px;
+            padding: 14px 16px;
+            border-radius: 14px;
+            background: rgba(15, 15, 26, 0.8);
+        }
+        #title {
+            font-size: 18px;
+            font-weight: 700;
+            margin-bottom: 10px;
+            color: #fbbf24;
+        }
+        .row {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            padding: 6px 0;
+            border-top: 1px solid rgba(255, 255, 255, 0.08);
+            transition: background 0.4s ease;
+        }
+        .row:first-child { border-top: none; }
+        .rank { width: 28px; text-align: center; font-size: 18px; }
+        .name {
+            flex: 1;
+            min-width: 0;
+            font-size: 15px;
+            font-weight: 600;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .diamonds { font-size: 15px; font-weight: 700; color: #67e8f9; }
+        .empty { font-size: 13px; color: rgba(255, 255, 255, 0.5); }
+    </style>
+</head>
+<body>
+    <div id="board">
+        <div id="title">Top Gifters</div>
+        <div id="rows"><div class="empty">No gifts yet</div></div>
+    </div>
+
+    <script>
+        // ?limit=N shows fewer rows than configured in the app
+        const params = new URLSearchParams(window.location.search);
+        const limit = parseInt(params.get('limit') || '0', 10);
+        const titleEl = document.getElementById('title');
+        const rowsEl = document.getElementById('rows');
+        const MEDALS = ['🥇', '🥈', '🥉'];
+        let ws = null;
+        let reconnectInterval = null;
+
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = text;
+            return div.innerHTML;
+        }
+
+        function render(data) {
+            titleEl.textContent = data.title || 'Top Gifters';
+            const entries = limit > 0 ? data.entries.slice(0, limit) : data.entries;
+
+            if (entries.length === 0) {
+                rowsEl.innerHTML = '<div class="empty">No gifts yet</div>';
+                return;
+            }
+
+            rowsEl.innerHTML = entries.map((entry, i) =>
+                '<div class="row">' +
+                    '<span class="rank">' + (MEDALS[i] || (i + 1)) + '</span>' +
+                    '<span class="name">' + escapeHtml(entry.nickname) + '</span>' +
+                    '<span class="diamonds">' + entry.diamonds.toLocaleString('en-US') + ' 💎</span>' +
+                '</div>'
+            ).join('');
+        }
+
+        function connect() {
+            ws = new WebSocket('ws://' + window.location.host + '/?role=widget');
+
+            ws.onopen = () => {
+                if (reconnectInterval) {
+                    clearInterval(reconnectInterval);
+                    reconnectInterval = null;
+                }
+            };
+
+            ws.onclose = () => {
+                if (!reconnectInterval) {
+                    reconnectInterval = setInterval(connect, 3000);
+                }
+            };
+
+            ws.onerror = () => ws.close();
+
+            ws.onmessage = (event) => {
+                try {
+                    const msg = JSON.parse(event.data);
+                    if (msg.type === 'leaderboard') {
+                        render(msg.data);
+                    }
+                } catch (e) {
+                    console.error('Failed to parse message:', e);
+                }
+            };
+        }
+
+        connect();
+    </script>
+</body>
+</html>`;
+
+const GOAL_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Diamond Goal - TikTok Audio Gift</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+            background: transparent;
+            overflow: hidden;
+            font-family: 'Segoe UI', sans-serif;
+            color: white;
+            padding: 16px;
+        }
+        #goal {
+            width: 420px;
+            padding: 12px 16px;
+            border-radius: 14px;
+            background: rgba(15, 15, 26, 0.8);
+        }
+        #goal.hidden { display: none; }
+        .header {
+            display: flex;
+            justify-content: space-between;
+            align-items: baseline;
+            margin-bottom: 8px;
+        }
+        #title { font-size: 17px; font-weight: 700; }
+        #amount { font-size: 15px; font-weight: 700; color: #67e8f9; }
+        .track {
+            height: 18px;
+            border-radius: 9px;
+            background: rgba(255, 255, 255, 0.12);
+            overflow: hidden;
+        }
+        #fill {
+            height: 100%;
+            width: 0%;
+            border-radius: 9px;
+            background: linear-gradient(90deg, #ec4899, #8b5cf6);
+            transition: width 0.8s ease;
+        }
+        #goal.complete #fill { background: linear-gradient(90deg, #22c55e, #facc15); }
+        #message {
+            margin-top: 8px;
+            font-size: 16px;
+            font-weight: 700;
+            color: #facc15;
+            text-align: center;
+            display: none;
+        }
+        #goal.celebrate { animation: pulse 0.6s ease 4; }
+        @keyframes pulse {
+            0%, 100% { transform: scale(1); }
+            50% { transform: scale(1.05); }
+        }
+    </style>
+</head>
+<body>
+    <div id="goal" class="hidden">
+        <div class="header">
+            <span id="title">Diamond Goal</span>
+            <span id="amount">0 / 0 💎</span>
+        </div>
+        <div class="track"><div id="fill"></div></div>
+        <div id="message"></div>
+    </div>
+
+    <script>
+        const goalEl = document.getElementById('goal');
+        const titleEl = document.getElementById('title');
+        const amountEl = document.getElementById('amount');
+        const fillEl = document.getElementById('fill');
+        const messageEl = document.getElementById('message');
+        let ws = null;
+        let reconnectInterval = null;
+
+        function render(data) {
+            goalEl.classList.toggle('hidden', !data.enabled || data.target <= 0);
+            titleEl.textContent = data.title || 'Diamond Goal';
+            amountEl.textContent = data.progress.toLocaleString('en-US') + ' / ' + data.target.toLocaleString('en-US') + ' 💎';
+            const percent = data.target > 0 ? Math.min(100, (data.progress / data.target) * 100) : 0;
+            fillEl.style.width = percent + '%';
+
+            const complete = data.target > 0 && data.progress >= data.target;
+            goalEl.classList.toggle('complete', complete);
+            if (!complete) {
+                messageEl.style.display = 'none';
+            }
+        }
+
+        function celebrate(message) {
+            messageEl.textContent = message;
+            messageEl.style.display = message ? 'block' : 'none';
+            goalEl.classList.remove('celebrate');
+            void goalEl.offsetWidth;
+            goalEl.classList.add('celebrate');
+        }
+
+        function connect() {
+            ws = new WebSocket('ws://' + window.location.host + '/?role=widget');
+
+            ws.onopen = () => {
+                if (reconnectInterval) {
+                    clearInterval(reconnectInterval);
+                    reconnectInterval = null;
+                }
+            };
+
+            ws.onclose = () => {
+                if (!reconnectInterval) {
+                    reconnectInterval = setInterval(connect, 3000);
+                }
+            };
+
+            ws.onerror = () => ws.close();
+
+            ws.onmessage = (event) => {
+                try {
+                    const msg = JSON.parse(event.data);
+                    if (msg.type === 'goal') {
+                        render(msg.data);
+                    } else if (msg.type === 'goal-complete') {
+                        celebrate(msg.data.message);
+                    }
+                } catch (e) {
+                    console.error('Failed to parse message:', e);
+                }
+            };
+        }
+
+        connect();
+    </script>
+</body>
+</html>`;
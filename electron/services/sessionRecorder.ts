@@ -0,0 +1,337 @@
+import { app } from 'electron';
+import path from 'path';
+import fs from 'fs';
+import { storageService } from './storage';
+import { RoomInfo, GiftEvent, ChatEvent, MemberEvent, FollowEvent, ShareEvent, LikeEvent, SubscribeEvent, BattleEvent } from './tiktok';
+
+export interface RecordedAudio {
+  triggerId: string;
+  label: string;
+  nickname: string;
+  audioPath: string;
+}
+
+// Payload recorded for each event type: the TikTokService event name, or 'audio' for a
+// sound that was queued on the overlay
+export interface SessionEventData {
+  connected: RoomInfo;
+  disconnected: Record<string, never>;
+  error: { message: string };
+  giftFinal: GiftEvent;
+  giftStreak: GiftEvent;
+  chat: ChatEvent;
+  member: MemberEvent;
+  follow: FollowEvent;
+  share: ShareEvent;
+  like: LikeEvent;
+  subscribe: SubscribeEvent;
+  roomStats: { room: string; viewerCount: number };
+  battleStart: BattleEvent;
+  battleScore: BattleEvent;
+  battleEnd: BattleEvent;
+  audio: RecordedAudio & { audioName: string };
+}
+
+export type SessionEventType = keyof SessionEventData;
+
+// One line of a session file
+export type SessionRecord = {
+  [K in SessionEventType]: { t: number; type: K; room: string; roomId: string; data: SessionEventData[K] };
+}[SessionEventType];
+
+export interface SessionSummary {
+  id: string;
+  room: string;
+  roomId: string;
+  nickname: string;
+  title: string;
+  startedAt: number;
+  endedAt: number;
+  eventCount: number;
+  giftCount: number;
+  audioCount: number;
+  sizeBytes: number;
+  recording: boolean;
+}
+
+// Written next to the session file when it closes, so listing doesn't parse every recording
+type StoredSummary = Omit<SessionSummary, 'sizeBytes' | 'recording'>;
+
+interface SessionHeader {
+  type: 'session';
+  version: number;
+  id: string;
+  room: string;
+  roomId: string;
+  nickname: string;
+  title: string;
+  startedAt: number;
+}
+
+interface ActiveSession {
+  id: string;
+  roomId: string;
+  stream: fs.WriteStream;
+  // Kept up to date as events are recorded
+  summary: StoredSummary;
+}
+
+const SESSION_ID_PATTERN = /^[\w.-]+$/;
+
+function formatTimestamp(time: number): string {
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+}
+
+function countRecord(summary: StoredSummary, record: SessionRecord) {
+  summary.endedAt = record.t;
+  if (record.type === 'audio') {
+    summary.audioCount++;
+  } else {
+    summary.eventCount++;
+    if (record.type === 'giftFinal') summary.giftCount++;
+  }
+}
+
+class SessionRecorderService {
+  private sessionsPath: string = '';
+  // Open session file per connected room key
+  private active: Map<string, ActiveSession> = new Map();
+
+  constructor() {
+    this.init();
+  }
+
+  private init() {
+    try {
+      this.sessionsPath = path.join(app.getPath('documents'), 'tiktokAudioGift', 'sessions');
+      if (!fs.existsSync(this.sessionsPath)) {
+        fs.mkdirSync(this.sessionsPath, { recursive: true });
+      }
+    } catch (e) {
+      console.error('Failed to initialize SessionRecorderService:', e);
+    }
+  }
+
+  private ensureSessionsDir(): string {
+    if (!this.sessionsPath) {
+      this.init();
+    }
+    if (!fs.existsSync(this.sessionsPath)) {
+      fs.mkdirSync(this.sessionsPath, { recursive: true });
+    }
+    return this.sessionsPath;
+  }
+
+  private getSessionFile(id: string): string | null {
+    if (!SESSION_ID_PATTERN.test(id)) return null;
+    return path.join(this.ensureSessionsDir(), `${id}.jsonl`);
+  }
+
+  private getSummaryFile(id: string): string {
+    return path.join(this.ensureSessionsDir(), `${id}.summary.json`);
+  }
+
+  private write(session: ActiveSession, line: SessionHeader | SessionRecord) {
+    session.stream.write(JSON.stringify(line) + '\n');
+  }
+
+  // Opens a new session file, or keeps appending to the current one when reconnecting to the same live
+  startSession(room: string, info: { roomId: string; nickname: string; title: string }): void {
+    const current = this.active.get(room);
+    if (current && info.roomId && current.roomId === info.roomId) {
+      console.log(`[Sessions] Resuming ${current.id}`);
+      return;
+    }
+    this.endSession(room);
+
+    const startedAt = Date.now();
+    const id = `${formatTimestamp(startedAt)}_${room.replace(/[^\w.-]/g, '_')}`;
+    const file = this.getSessionFile(id);
+    if (!file) return;
+
+    try {
+      const header: SessionHeader = {
+        type: 'session',
+        version: 1,
+        id,
+        room,
+        roomId: info.roomId,
+        nickname: info.nickname,
+        title: info.title,
+        startedAt,
+      };
+      const session: ActiveSession = {
+        id,
+        roomId: info.roomId,
+        stream: fs.createWriteStream(file, { flags: 'a' }),
+        summary: this.toSummary(header),
+      };
+      session.stream.on('error', (error) => {
+        console.error(`[Sessions] Failed to write ${id}:`, error);
+      });
+
+      this.write(session, header);
+      this.active.set(room, session);
+      console.log(`[Sessions] Recording @${room} to ${file}`);
+    } catch (e) {
+      console.error('[Sessions] Failed to start session:', e);
+    }
+  }
+
+  endSession(room: string): void {
+    const session = this.active.get(room);
+    if (!session) return;
+
+    session.stream.end();
+    this.active.delete(room);
+    this.writeSummary(session.summary);
+    console.log(`[Sessions] Closed ${session.id}`);
+  }
+
+  endAll(): void {
+    for (const room of [...this.active.keys()]) {
+      this.endSession(room);
+    }
+  }
+
+  // Events for rooms without an open session (e.g. test gifts) are not recorded
+  record<K extends SessionEventType>(room: string, type: K, data: SessionEventData[K]): void {
+    const session = this.active.get(room);
+    if (!session) return;
+
+    const record = { t: Date.now(), type, room, roomId: session.roomId, data } as SessionRecord;
+    this.write(session, record);
+    countRecord(session.summary, record);
+  }
+
+  recordAudio(room: string, audio: RecordedAudio): void {
+    const filename = audio.audioPath.split(/[/\\]/).pop() || '';
+    const audioId = filename.replace(/\.[^/.]+$/, '');
+
+    this.record(room, 'audio', { ...audio, audioName: storageService.getAudioName(audioId) || filename });
+  }
+
+  private toSummary(header: SessionHeader): StoredSummary {
+    return {
+      id: header.id,
+      room: header.room,
+      roomId: header.roomId,
+      nickname: header.nickname,
+      title: header.title,
+      startedAt: header.startedAt,
+      endedAt: header.startedAt,
+      eventCount: 0,
+      giftCount: 0,
+      audioCount: 0,
+    };
+  }
+
+  private writeSummary(summary: StoredSummary): void {
+    fs.promises.writeFile(this.getSummaryFile(summary.id), JSON.stringify(summary)).catch((error) => {
+      console.error(`[Sessions] Failed to save summary of ${summary.id}:`, error);
+    });
+  }
+
+  private async readSession(file: string): Promise<{ summary: StoredSummary; records: SessionRecord[] } | null> {
+    const lines = (await fs.promises.readFile(file, 'utf-8'))
+      .split('\n')
+      .filter(line => line.trim())
+      .map((line): SessionHeader | SessionRecord | null => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          // A crash can leave a half-written last line
+          return null;
+        }
+      });
+
+    const header = lines[0];
+    if (!header || header.type !== 'session') return null;
+
+    const summary = this.toSummary(header);
+    const records: SessionRecord[] = [];
+    for (const line of lines.slice(1)) {
+      if (!line || line.type === 'session') continue;
+      records.push(line);
+      countRecord(summary, line);
+    }
+    return { summary, records };
+  }
+
+  // Sessions closed before summaries were stored, or cut short by a crash, are parsed once
+  private async getSummary(id: string, file: string): Promise<SessionSummary | null> {
+    const { size } = await fs.promises.stat(file);
+
+    const active = [...this.active.values()].find(session => session.id === id);
+    if (active) return { ...active.summary, sizeBytes: size, recording: true };
+
+    let summary: StoredSummary | null = null;
+    try {
+      summary = JSON.parse(await fs.promises.readFile(this.getSummaryFile(id), 'utf-8'));
+    } catch {
+      summary = (await this.readSession(file))?.summary || null;
+      if (summary) this.writeSummary(summary);
+    }
+    return summary && { ...summary, sizeBytes: size, recording: false };
+  }
+
+  isRecording(id: string): boolean {
+    return [...this.active.values()].some(session => session.id === id);
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    try {
+      const dir = this.ensureSessionsDir();
+      const files = (await fs.promises.readdir(dir)).filter(file => file.endsWith('.jsonl'));
+
+      const summaries: SessionSummary[] = [];
+      for (const file of files) {
+        try {
+          const summary = await this.getSummary(path.basename(file, '.jsonl'), path.join(dir, file));
+          if (summary) summaries.push(summary);
+        } catch (e) {
+          console.error(`[Sessions] Error reading ${file}:`, e);
+        }
+      }
+      return summaries.sort((a, b) => b.startedAt - a.startedAt);
+    } catch (e) {
+      console.error('[Sessions] Error listing sessions:', e);
+      return [];
+    }
+  }
+
+  async getSession(id: string): Promise<{ summary: SessionSummary; records: SessionRecord[] } | null> {
+    const file = this.getSessionFile(id);
+    if (!file || !fs.existsSync(file)) return null;
+
+    try {
+      const session = await this.readSession(file);
+      if (!session) return null;
+
+      const { size } = await fs.promises.stat(file);
+      return { summary: { ...session.summary, sizeBytes: size, recording: this.isRecording(id) }, records: session.records };
+    } catch (e) {
+      console.error('[Sessions] Error reading session:', e);
+      return null;
+    }
+  }
+
+  // The session being written for a live room can't be deleted
+  deleteSession(id: string): boolean {
+    const file = this.getSessionFile(id);
+    if (!file || !fs.existsSync(file) || this.isRecording(id)) return false;
+
+    try {
+      fs.unlinkSync(file);
+      fs.rmSync(this.getSummaryFile(id), { force: true });
+      return true;
+    } catch (error) {
+      console.error('[Sessions] Error deleting session:', error);
+      return false;
+    }
+  }
+}
+
+export const sessionRecorderService = new SessionRecorderService();
@@ -0,0 +1,134 @@
+import { EventEmitter } from 'events';
+import { sessionRecorderService, SessionRecord } from './sessionRecorder';
+
+export interface ReplayOptions {
+  speed: number;
+  // Offsets from the start of the session; 0 for `toMs` means until the end
+  fromMs: number;
+  toMs: number;
+}
+
+export interface ReplayState {
+  sessionId: string;
+  room: string;
+  speed: number;
+  played: number;
+  total: number;
+  // Offset from the start of the session of the last replayed event
+  positionMs: number;
+  fromMs: number;
+  toMs: number;
+}
+
+// Only gift traffic is replayed; chat, joins and the rest aren't part of the playback pipeline being rehearsed
+const REPLAYED_TYPES = ['giftFinal', 'giftStreak'];
+
+class SessionReplayService extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private state: ReplayState | null = null;
+  private records: SessionRecord[] = [];
+  private sessionStart = 0;
+  private wallStart = 0;
+
+  getState(): ReplayState | null {
+    return this.state;
+  }
+
+  // Replays the session's gifts with their original spacing divided by `speed`, emitting
+  // 'giftFinal'/'giftStreak' like TikTokService does with `replay` set on each event
+  async start(sessionId: string, options: ReplayOptions): Promise<ReplayState> {
+    const session = await sessionRecorderService.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+
+    this.stop();
+
+    const speed = Math.max(0.1, options.speed || 1);
+    const fromMs = Math.max(0, options.fromMs || 0);
+    const toMs = options.toMs > fromMs ? options.toMs : 0;
+    const start = session.summary.startedAt;
+
+    this.records = session.records.filter(r => {
+      if (!REPLAYED_TYPES.includes(r.type)) return false;
+      const offset = r.t - start;
+      return offset >= fromMs && (toMs === 0 || offset <= toMs);
+    });
+    if (this.records.length === 0) throw new Error('No gifts in the selected range');
+
+    this.sessionStart = start;
+    this.wallStart = Date.now();
+    this.state = {
+      sessionId,
+      room: session.summary.room,
+      speed,
+      played: 0,
+      total: this.records.length,
+      positionMs: fromMs,
+      fromMs,
+      toMs,
+    };
+
+    console.log(`[Replay] Replaying ${this.records.length} gift events from ${sessionId} at ${speed}x`);
+    this.emit('progress', this.state);
+    this.scheduleNext();
+    return this.state;
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.state) {
+      console.log(`[Replay] Stopped after ${this.state.played}/${this.state.total} events`);
+      this.state = null;
+      this.records = [];
+      this.emit('finished');
+    }
+  }
+
+  private getDueTime(record: SessionRecord): number {
+    const offset = record.t - this.sessionStart - this.state!.fromMs;
+    return this.wallStart + offset / this.state!.speed;
+  }
+
+  private scheduleNext() {
+    if (!this.state) return;
+
+    const next = this.records[this.state.played];
+    if (!next) {
+      console.log(`[Replay] Finished ${this.state.sessionId}`);
+      this.state = null;
+      this.records = [];
+      this.emit('finished');
+      return;
+    }
+
+    const delay = Math.max(0, this.getDueTime(next) - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.flushDue();
+    }, delay);
+  }
+
+  // Sends every event that is due, so a burst recorded in the same millisecond isn't spread over many ticks
+  private flushDue() {
+    if (!this.state) return;
+
+    const now = Date.now();
+    while (this.state && this.state.played < this.records.length) {
+      const record = this.records[this.state.played];
+      if (this.getDueTime(record) > now) break;
+
+      this.state.played++;
+      this.state.positionMs = record.t - this.sessionStart;
+      this.emit(record.type, { ...record.data, replay: true });
+    }
+
+    if (this.state) {
+      this.emit('progress', this.state);
+    }
+    this.scheduleNext();
+  }
+}
+
+export const sessionReplayService = new SessionReplayService();
@@ -0,0 +1,436 @@
+import { app, dialog } from 'electron';
+import { EventEmitter } from 'events';
+import path from 'path';
+import fs from 'fs';
+import { storageService } from './storage';
+import { GiftEvent, BattleEvent, RoomInfo, RoomState, ConnectionStatus } from './tiktok';
+
+// Simulated traffic shows up as its own room; this key is reserved and can't be connected to for real
+export const SIMULATOR_ROOM = 'simulator';
+
+export type SimulatedEventType = 'gift' | 'chat' | 'member' | 'like' | 'follow' | 'share' | 'subscribe' | 'viewers'
+  | 'battleStart' | 'battleScore' | 'battleEnd';
+
+// One event of a scenario. Missing fields are filled with sensible defaults.
+export interface SimulatedStep {
+  // Milliseconds from the start of the scenario
+  at?: number;
+  type: SimulatedEventType;
+  user?: string;
+  nickname?: string;
+  giftId?: string;
+  giftName?: string;
+  // Gift repeat count, like count or viewer count depending on the type
+  count?: number;
+  diamonds?: number;
+  // Send a multi-gift as streak updates followed by the final message (default), like TikTok does
+  streak?: boolean;
+  message?: string;
+  // Marks the user as a moderator of the live
+  moderator?: boolean;
+  // Battle steps: our points, the opponent's points and their nickname
+  score?: number;
+  opponentScore?: number;
+  opponent?: string;
+  // Gift steps: play with this mapping profile instead of the simulator room's
+  profileId?: string;
+}
+
+export interface SimulatorScenario {
+  name: string;
+  loop?: boolean;
+  steps: SimulatedStep[];
+}
+
+export interface LoadProfile {
+  id: string;
+  name: string;
+  // 0 = until stopped
+  durationSeconds: number;
+  giftsPerMinute: number;
+  chatsPerMinute: number;
+  joinsPerMinute: number;
+  likesPerMinute: number;
+  followsPerMinute: number;
+  maxGiftCount: number;
+  userPoolSize: number;
+}
+
+export interface SimulatorState {
+  mode: 'scenario' | 'load';
+  name: string;
+  startedAt: number;
+  durationMs: number;
+  emitted: number;
+}
+
+export const LOAD_PROFILES: LoadProfile[] = [
+  { id: 'light', name: 'Light stream', durationSeconds: 0, giftsPerMinute: 6, chatsPerMinute: 20, joinsPerMinute: 15, likesPerMinute: 30, followsPerMinute: 2, maxGiftCount: 5, userPoolSize: 30 },
+  { id: 'busy', name: 'Busy stream', durationSeconds: 0, giftsPerMinute: 40, chatsPerMinute: 120, joinsPerMinute: 60, likesPerMinute: 200, followsPerMinute: 10, maxGiftCount: 30, userPoolSize: 300 },
+  { id: 'flood', name: 'Gift flood', durationSeconds: 60, giftsPerMinute: 300, chatsPerMinute: 60, joinsPerMinute: 30, likesPerMinute: 100, followsPerMinute: 5, maxGiftCount: 99, userPoolSize: 50 },
+];
+
+const LOAD_TICK_MS = 250;
+const STREAK_STEP_MS = 150;
+
+const EXAMPLE_SCENARIO: SimulatorScenario = {
+  name: 'Example',
+  steps: [
+    { at: 0, type: 'member', user: 'alice' },
+    { at: 1000, type: 'chat', user: 'alice', message: 'hi!' },
+    { at: 2000, type: 'gift', user: 'alice', giftId: '5655', giftName: 'Rose', count: 5, diamonds: 1 },
+    { at: 5000, type: 'like', user: 'bob', count: 15 },
+    { at: 6000, type: 'follow', user: 'bob' },
+    { at: 7000, type: 'gift', user: 'bob', giftId: '5655', giftName: 'Rose', count: 1, diamonds: 1 },
+  ],
+};
+
+class SimulatorService extends EventEmitter {
+  private scenariosPath: string = '';
+  private state: SimulatorState | null = null;
+  private status: ConnectionStatus = 'disconnected';
+  private info: RoomInfo | null = null;
+  private battle: BattleEvent | null = null;
+  // Timers of the running scenario or load profile, cleared by stop()
+  private timers: Set<NodeJS.Timeout> = new Set();
+  // Streaks of single test gifts sent without a run; stopping a run leaves them to finish
+  private testTimers: Set<NodeJS.Timeout> = new Set();
+
+  constructor() {
+    super();
+    this.init();
+  }
+
+  private init() {
+    try {
+      this.scenariosPath = path.join(app.getPath('documents'), 'tiktokAudioGift', 'scenarios');
+      if (!fs.existsSync(this.scenariosPath)) {
+        fs.mkdirSync(this.scenariosPath, { recursive: true });
+        fs.writeFileSync(path.join(this.scenariosPath, 'example.json'), JSON.stringify(EXAMPLE_SCENARIO, null, 2));
+      }
+    } catch (e) {
+      console.error('Failed to initialize SimulatorService:', e);
+    }
+  }
+
+  private ensureScenariosDir(): string {
+    if (!this.scenariosPath) {
+      this.init();
+    }
+    if (!fs.existsSync(this.scenariosPath)) {
+      fs.mkdirSync(this.scenariosPath, { recursive: true });
+    }
+    return this.scenariosPath;
+  }
+
+  isSimulatedRoom(room: string): boolean {
+    return room === SIMULATOR_ROOM;
+  }
+
+  getState(): SimulatorState | null {
+    return this.state;
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  getRooms(): RoomState[] {
+    if (this.status === 'disconnected') return [];
+    return [{ room: SIMULATOR_ROOM, status: this.status, info: this.info, reconnect: null }];
+  }
+
+  listScenarios(): string[] {
+    try {
+      return fs.readdirSync(this.ensureScenariosDir())
+        .filter(file => file.endsWith('.json'))
+        .map(file => path.basename(file, '.json'))
+        .sort();
+    } catch (e) {
+      console.error('[Simulator] Error listing scenarios:', e);
+      return [];
+    }
+  }
+
+  loadScenario(name: string): SimulatorScenario {
+    if (!/^[\w .-]+$/.test(name)) throw new Error('Invalid scenario name');
+
+    const file = path.join(this.ensureScenariosDir(), `${name}.json`);
+    return this.readScenarioFile(file, name);
+  }
+
+  private readScenarioFile(file: string, name: string): SimulatorScenario {
+    const parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    if (!parsed || !Array.isArray(parsed.steps)) throw new Error('Scenario has no steps');
+
+    return { name: parsed.name || name, loop: Boolean(parsed.loop), steps: parsed.steps };
+  }
+
+  async importScenario(): Promise<string | null> {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      filters: [{ name: 'Scenario', extensions: ['json'] }],
+    });
+    if (result.canceled || result.filePaths.length === 0) return null;
+
+    const sourcePath = result.filePaths[0];
+    const name = path.basename(sourcePath, '.json').replace(/[^\w .-]/g, '_');
+    // Fail the import now rather than when it's run, and keep broken files out of the list
+    this.readScenarioFile(sourcePath, name);
+    fs.copyFileSync(sourcePath, path.join(this.ensureScenariosDir(), `${name}.json`));
+    return name;
+  }
+
+  getScenariosPath(): string {
+    return this.ensureScenariosDir();
+  }
+
+  private schedule(callback: () => void, delay: number, timers: Set<NodeJS.Timeout> = this.timers) {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      callback();
+    }, delay);
+    timers.add(timer);
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    this.status = status;
+    this.emit('status', SIMULATOR_ROOM, status);
+  }
+
+  // Opens the simulated room the same way a TikTok room connects
+  private open(mode: SimulatorState['mode'], name: string, durationMs: number) {
+    this.stop();
+
+    this.info = {
+      room: SIMULATOR_ROOM,
+      roomId: `sim-${Date.now()}`,
+      title: name,
+      viewerCount: 0,
+      nickname: 'Simulator',
+      profilePictureUrl: '',
+    };
+    this.state = { mode, name, startedAt: Date.now(), durationMs, emitted: 0 };
+
+    this.setStatus('connected');
+    this.emit('connected', this.info);
+    this.emit('progress', this.state);
+  }
+
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    if (this.status === 'disconnected') return;
+
+    console.log(`[Simulator] Stopped ${this.state?.name} after ${this.state?.emitted} events`);
+    this.state = null;
+    this.info = null;
+    this.battle = null;
+    this.emit('disconnected', SIMULATOR_ROOM);
+    this.setStatus('disconnected');
+    this.emit('progress', null);
+  }
+
+  runScenario(scenario: SimulatorScenario): SimulatorState {
+    const steps = [...scenario.steps].sort((a, b) => (a.at || 0) - (b.at || 0));
+    const durationMs = steps.length > 0 ? steps[steps.length - 1].at || 0 : 0;
+
+    this.open('scenario', scenario.name, scenario.loop ? 0 : durationMs);
+    console.log(`[Simulator] Running scenario "${scenario.name}" (${steps.length} steps${scenario.loop ? ', looping' : ''})`);
+
+    const runOnce = () => {
+      for (const step of steps) {
+        this.schedule(() => this.emitStep(step), Math.max(0, step.at || 0));
+      }
+      // The last step may be a streak that is still running, so leave it a moment
+      this.schedule(() => (scenario.loop ? runOnce() : this.stop()), durationMs + 1000);
+    };
+    runOnce();
+
+    return this.state!;
+  }
+
+  runLoad(profile: LoadProfile): SimulatorState {
+    const durationMs = Math.max(0, profile.durationSeconds) * 1000;
+    this.open('load', profile.name, durationMs);
+    console.log(`[Simulator] Running load profile "${profile.name}"`);
+
+    const gifts = this.getGiftPool();
+    const users = Math.max(1, profile.userPoolSize);
+    const randomUser = () => `viewer${Math.floor(Math.random() * users) + 1}`;
+    // Probability of at least one event of a kind during a tick
+    const chance = (perMinute: number) => (perMinute * LOAD_TICK_MS) / 60000;
+
+    const tick = () => {
+      if (!this.state) return;
+      if (durationMs > 0 && Date.now() - this.state.startedAt >= durationMs) {
+        this.stop();
+        return;
+      }
+
+      const rolls: Array<[number, () => SimulatedStep]> = [
+        [profile.giftsPerMinute, () => {
+          const gift = gifts[Math.floor(Math.random() * gifts.length)];
+          const count = Math.floor(Math.random() * Math.max(1, profile.maxGiftCount)) + 1;
+          return { type: 'gift', user: randomUser(), giftId: gift.giftId, giftName: gift.giftName, diamonds: gift.diamonds, count };
+        }],
+        [profile.chatsPerMinute, () => ({ type: 'chat', user: randomUser(), message: `message ${Math.floor(Math.random() * 1000)}` })],
+        [profile.joinsPerMinute, () => ({ type: 'member', user: randomUser() })],
+        [profile.likesPerMinute, () => ({ type: 'like', user: randomUser(), count: Math.floor(Math.random() * 15) + 1 })],
+        [profile.followsPerMinute, () => ({ type: 'follow', user: randomUser() })],
+      ];
+
+      for (const [perMinute, build] of rolls) {
+        // Rates above one per tick fire several events in the same tick
+        let expected = chance(perMinute);
+        while (expected > 0) {
+          if (Math.random() < Math.min(1, expected)) {
+            this.emitStep(build());
+          }
+          expected -= 1;
+        }
+      }
+
+      this.schedule(tick, LOAD_TICK_MS);
+    };
+    tick();
+
+    return this.state!;
+  }
+
+  // Gifts to draw from: the cached catalog, then configured mappings, then a plain Rose
+  private getGiftPool(): Array<{ giftId: string; giftName: string; diamonds: number }> {
+    const cached = storageService.getCachedGifts();
+    if (cached.length > 0) {
+      return cached.map(g => ({ giftId: g.id.toString(), giftName: g.name, diamonds: g.diamondCount }));
+    }
+
+    const mapped = Object.values(storageService.getAllGiftMappings());
+    if (mapped.length > 0) {
+      return mapped.map(m => ({ giftId: m.giftId, giftName: m.giftName, diamonds: storageService.getGiftDiamonds(m.giftId) || 1 }));
+    }
+
+    return [{ giftId: '5655', giftName: 'Rose', diamonds: 1 }];
+  }
+
+  // Emits one step as the same event(s) a TikTok room would produce. Works without a running
+  // scenario, in which case the events still belong to the simulator room.
+  emitStep(step: SimulatedStep): void {
+    const username = (step.user || 'test_user').replace(/^@/, '');
+    const user = {
+      room: SIMULATOR_ROOM,
+      userId: `sim-${username}`,
+      username,
+      nickname: step.nickname || username,
+      isModerator: Boolean(step.moderator),
+    };
+
+    if (this.state) {
+      this.state.emitted++;
+      this.emit('progress', this.state);
+    }
+
+    switch (step.type) {
+      case 'gift':
+        this.emitGift(user, step);
+        break;
+      case 'chat':
+        this.emit('chat', { ...user, message: step.message || '' });
+        break;
+      case 'member':
+        this.emit('member', user);
+        break;
+      case 'follow':
+        this.emit('follow', user);
+        break;
+      case 'share':
+        this.emit('share', user);
+        break;
+      case 'subscribe':
+        this.emit('subscribe', user);
+        break;
+      case 'like': {
+        const likeCount = Math.max(1, step.count || 1);
+        this.emit('like', { ...user, likeCount, totalLikeCount: likeCount });
+        break;
+      }
+      case 'viewers': {
+        const viewerCount = Math.max(0, step.count || 0);
+        if (this.info) this.info.viewerCount = viewerCount;
+        this.emit('roomStats', { room: SIMULATOR_ROOM, viewerCount });
+        break;
+      }
+      case 'battleStart':
+      case 'battleScore':
+      case 'battleEnd':
+        this.emitBattle(step);
+        break;
+      default:
+        console.warn(`[Simulator] Unknown step type: ${(step as SimulatedStep).type}`);
+    }
+  }
+
+  // Score and end steps without a start join an implicit battle; missing scores keep the last ones
+  private emitBattle(step: SimulatedStep) {
+    if (step.type === 'battleStart' || !this.battle) {
+      this.battle = {
+        room: SIMULATOR_ROOM,
+        battleId: `sim-battle-${Date.now()}`,
+        score: 0,
+        opponentScore: 0,
+        opponentNickname: step.opponent || 'opponent',
+      };
+    }
+
+    const battle: BattleEvent = {
+      ...this.battle,
+      score: step.score ?? this.battle.score,
+      opponentScore: step.opponentScore ?? this.battle.opponentScore,
+      opponentNickname: step.opponent || this.battle.opponentNickname,
+    };
+
+    if (step.type === 'battleEnd') {
+      battle.result = battle.score > battle.opponentScore ? 'win' : battle.score < battle.opponentScore ? 'lose' : 'draw';
+      this.battle = null;
+    } else {
+      this.battle = battle;
+    }
+
+    this.emit(step.type, battle);
+  }
+
+  private emitGift(user: Pick<GiftEvent, 'room' | 'userId' | 'username' | 'nickname' | 'isModerator'>, step: SimulatedStep) {
+    const giftId = step.giftId || '5655';
+    const count = Math.max(1, Math.floor(step.count || 1));
+    const base: GiftEvent = {
+      ...user,
+      giftId,
+      giftName: step.giftName || storageService.getGiftName(giftId) || 'Gift',
+      giftCount: count,
+      diamondCount: step.diamonds ?? storageService.getGiftDiamonds(giftId) ?? 1,
+      isComboEnd: true,
+      giftPictureUrl: '',
+      profileId: step.profileId,
+    };
+
+    if (count === 1 || step.streak === false) {
+      this.emit('giftFinal', { ...base, streakDelta: count, isStreakStart: true });
+      return;
+    }
+
+    const timers = this.state ? this.timers : this.testTimers;
+    for (let i = 1; i <= count; i++) {
+      this.schedule(() => {
+        this.emit('giftStreak', { ...base, giftCount: i, isComboEnd: false, streakDelta: 1, isStreakStart: i === 1 });
+      }, (i - 1) * STREAK_STEP_MS, timers);
+    }
+    this.schedule(() => {
+      this.emit('giftFinal', { ...base, streakDelta: 0, isStreakStart: false });
+    }, count * STREAK_STEP_MS, timers);
+  }
+}
+
+export const simulatorService = new SimulatorService();
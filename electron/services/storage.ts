@@ -5,12 +5,240 @@ export interface AudioFileEntry {
   volume: number;
 }
 
+// When a gift streak plays: once per streak update, once when it starts, or when it ends (default)
+export type GiftStreakMode = 'increment' | 'start' | 'end';
+
+// How many sounds a gift earns: one per gift (capped), a single one, one per N gifts,
+// or a single one with the gift count announced on the overlay
+export type GiftRepeatMode = 'perGift' | 'once' | 'everyN' | 'announce';
+
+export interface GiftRepeatSettings {
+  mode: GiftRepeatMode;
+  maxRepeats: number;
+  everyN: number;
+  spacingMs: number;
+}
+
+export const defaultGiftRepeat: GiftRepeatSettings = {
+  mode: 'perGift',
+  maxRepeats: 20,
+  everyN: 10,
+  spacingMs: 250,
+};
+
 export interface GiftAudioMapping {
   giftId: string;
   giftName: string;
   audioPath?: string;
   audioFiles: AudioFileEntry[];
   enabled: boolean;
+  streakMode?: GiftStreakMode;
+  repeat?: GiftRepeatSettings;
+  // Minimum seconds between two plays of this mapping; 0 or missing means no cooldown
+  cooldownSeconds?: number;
+}
+
+// A named set of gift mappings that can be assigned to a room instead of the default set
+export interface MappingProfile {
+  id: string;
+  name: string;
+  giftAudioMappings: Record<string, GiftAudioMapping>;
+}
+
+// Catch-all playlist for gifts without an exact mapping, matched by per-gift diamond value
+export interface DiamondTier {
+  id: string;
+  minDiamonds: number;
+  // 0 means no upper bound
+  maxDiamonds: number;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+}
+
+export interface ChatCommand {
+  id: string;
+  command: string;
+  aliases: string[];
+  // Optional regular expression the text after the command must match
+  argPattern: string;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+  cooldownSeconds: number;
+  userCooldownSeconds: number;
+}
+
+export type EventTriggerType = 'follow' | 'share' | 'like' | 'subscribe'
+  | 'battleStart' | 'battleScore' | 'battleWin' | 'battleLose' | 'battleDraw' | 'battleLeadTaken' | 'battleLeadLost';
+
+export interface EventAudioMapping {
+  eventType: EventTriggerType;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+  showBanner?: boolean;
+  // Overlay banner, {nickname}, {score}, {opponentScore} and {opponent} are filled in when known
+  bannerMessage?: string;
+}
+
+export interface LikeMilestoneSettings {
+  enabled: boolean;
+  // Fire every N likes (0 disables)
+  everyN: number;
+  // Fire when the session total reaches one of these values
+  totals: number[];
+  audioFiles: AudioFileEntry[];
+  // Overlay message, {total} is replaced with the milestone reached
+  message: string;
+}
+
+export interface ViewerMilestoneSettings {
+  enabled: boolean;
+  thresholds: number[];
+  // When true each threshold fires at most once per session
+  oncePerSession: boolean;
+  // Otherwise a threshold re-arms after the count drops this far (%) below it
+  hysteresisPercent: number;
+  audioFiles: AudioFileEntry[];
+  // Overlay message, {count} is replaced with the threshold reached
+  message: string;
+}
+
+export interface VipEntrance {
+  id: string;
+  // TikTok @uniqueId (without @) or numeric userId
+  userKey: string;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+  showBanner: boolean;
+  // Overlay banner, {nickname} is replaced with the viewer's nickname
+  bannerMessage: string;
+}
+
+export type UserAccessList = 'block' | 'allow';
+
+export interface UserAccessEntry {
+  id: string;
+  // TikTok @uniqueId (without @) or numeric userId
+  userKey: string;
+  // Nickname when the user was added, for display only
+  nickname: string;
+  list: UserAccessList;
+  addedAt: number;
+}
+
+export interface UserAccessSettings {
+  // Only allowlisted users (and moderators, if enabled) trigger sounds. The blocklist always applies.
+  allowlistOnly: boolean;
+  allowModerators: boolean;
+}
+
+export interface ReconnectSettings {
+  // Reconnect automatically when the live connection drops
+  enabled: boolean;
+  // 0 retries forever
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  // Poll until the streamer is live instead of failing when they are offline
+  waitForLive: boolean;
+  liveCheckIntervalSeconds: number;
+}
+
+export interface DedupSettings {
+  // How long a gift message is remembered to drop repeated deliveries of it
+  windowSeconds: number;
+}
+
+export interface GiftCooldownSettings {
+  // Gift sounds a single user can trigger per minute; 0 means unlimited
+  userMaxPlaysPerMinute: number;
+}
+
+// What to drop when a new audio would push the overlay queue past its limits
+export type QueueDropPolicy = 'dropNewest' | 'dropOldest' | 'dropLowestDiamond' | 'collapseDuplicates';
+
+export interface QueueLimitSettings {
+  // 0 means no limit
+  maxItems: number;
+  // Total length of the queued audios in seconds; 0 means no limit
+  maxSeconds: number;
+  policy: QueueDropPolicy;
+}
+
+// Speech synthesis voice used by the overlay; an empty voice name means the browser default
+export interface TtsVoiceSettings {
+  voice: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+// 'after' speaks once the mapped audio is queued, 'instead' replaces it
+export type GiftTtsMode = 'after' | 'instead';
+
+export interface GiftTtsSettings {
+  enabled: boolean;
+  mode: GiftTtsMode;
+  // Supports {nickname}, {giftName} and {giftCount}
+  template: string;
+  // Gifts worth less than this (per gift × count) aren't announced
+  minDiamonds: number;
+  voice: TtsVoiceSettings;
+}
+
+// Who gets their chat read aloud
+export type ChatTtsAudience = 'everyone' | 'followers' | 'gifters';
+
+export interface ChatTtsSettings {
+  enabled: boolean;
+  audience: ChatTtsAudience;
+  // Supports {nickname} and {message}
+  template: string;
+  skipLinks: boolean;
+  skipCommands: boolean;
+  // Longer messages are skipped; 0 means no limit
+  maxLength: number;
+  // Messages waiting to be read at once; new ones are skipped while it's full
+  maxBacklog: number;
+  voice: TtsVoiceSettings;
+}
+
+// What happens to viewer text that hits a banned word
+export type WordFilterAction = 'replace' | 'drop';
+
+export interface WordFilterSettings {
+  enabled: boolean;
+  // Plain words (`*` as wildcard) or `/regex/` entries
+  words: string[];
+  action: WordFilterAction;
+  replacement: string;
+  // Match `h3ll0` as `hello` and so on
+  normalizeLeetspeak: boolean;
+}
+
+export interface DiamondGoalSettings {
+  enabled: boolean;
+  title: string;
+  target: number;
+  audioFiles: AudioFileEntry[];
+  // Shown when the goal is reached, {target} is replaced with the goal
+  message: string;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  username: string;
+  nickname: string;
+  diamonds: number;
+  gifts: number;
+  lastGiftAt: number;
+}
+
+export interface LeaderboardSettings {
+  trackAllTime: boolean;
+  // What the /leaderboard overlay page shows
+  overlayScope: 'session' | 'allTime';
+  overlayLimit: number;
+  overlayTitle: string;
 }
 
 export interface CachedGift {
@@ -18,27 +246,172 @@ export interface CachedGift {
   name: string;
   diamondCount: number;
   imageUrl: string;
+  // Appeared in a refresh after the catalog was first loaded and hasn't been dismissed yet
+  isNew?: boolean;
+  // Missing from the latest refresh; kept so existing mappings still show a name and image
+  unavailable?: boolean;
 }
 
 export interface AppSettings {
   lastUsername: string;
   giftAudioMappings: Record<string, GiftAudioMapping>;
+  mappingProfiles: Record<string, MappingProfile>;
+  // Room key (lowercased username) -> profile id
+  roomProfiles: Record<string, string>;
+  diamondTiers: Record<string, DiamondTier>;
+  chatCommands: Record<string, ChatCommand>;
+  eventAudioMappings: Partial<Record<EventTriggerType, EventAudioMapping>>;
+  likeMilestones: LikeMilestoneSettings;
+  viewerMilestones: ViewerMilestoneSettings;
+  vipEntrances: Record<string, VipEntrance>;
+  userAccessList: Record<string, UserAccessEntry>;
+  userAccess: UserAccessSettings;
+  reconnect: ReconnectSettings;
+  dedup: DedupSettings;
+  giftCooldown: GiftCooldownSettings;
+  queueLimits: QueueLimitSettings;
+  giftTts: GiftTtsSettings;
+  chatTts: ChatTtsSettings;
+  wordFilter: WordFilterSettings;
+  leaderboard: LeaderboardSettings;
+  leaderboardAllTime: Record<string, LeaderboardEntry>;
+  diamondGoal: DiamondGoalSettings;
+  // Diamonds collected towards the goal, kept across restarts
+  diamondGoalProgress: number;
   overlayPort: number;
   showGiftAnimation: boolean;
   globalVolume: number;
   cachedGifts: CachedGift[];
+  // When the gift catalog was last fetched, 0 if never
+  giftCatalogUpdatedAt: number;
   giftSortOrder: 'asc' | 'desc' | 'none';
   audioFileNames: Record<string, string>;
   audioFileVolumes: Record<string, number>;
 }
 
+const defaultLikeMilestones: LikeMilestoneSettings = {
+  enabled: false,
+  everyN: 1000,
+  totals: [],
+  audioFiles: [],
+  message: '{total} likes!',
+};
+
+const defaultViewerMilestones: ViewerMilestoneSettings = {
+  enabled: false,
+  thresholds: [100, 500, 1000],
+  oncePerSession: true,
+  hysteresisPercent: 10,
+  audioFiles: [],
+  message: '{count} viewers!',
+};
+
+const defaultUserAccess: UserAccessSettings = {
+  allowlistOnly: false,
+  allowModerators: true,
+};
+
+const defaultReconnect: ReconnectSettings = {
+  enabled: true,
+  maxAttempts: 0,
+  baseDelaySeconds: 2,
+  maxDelaySeconds: 60,
+  waitForLive: false,
+  liveCheckIntervalSeconds: 30,
+};
+
+const defaultDedup: DedupSettings = {
+  windowSeconds: 30,
+};
+
+const defaultGiftCooldown: GiftCooldownSettings = {
+  userMaxPlaysPerMinute: 0,
+};
+
+const defaultQueueLimits: QueueLimitSettings = {
+  maxItems: 0,
+  maxSeconds: 0,
+  policy: 'dropNewest',
+};
+
+export const defaultTtsVoice: TtsVoiceSettings = {
+  voice: '',
+  rate: 1,
+  pitch: 1,
+  volume: 1,
+};
+
+const defaultGiftTts: GiftTtsSettings = {
+  enabled: false,
+  mode: 'after',
+  template: '{nickname} sent {giftCount} {giftName}, thank you!',
+  minDiamonds: 1,
+  voice: defaultTtsVoice,
+};
+
+const defaultChatTts: ChatTtsSettings = {
+  enabled: false,
+  audience: 'everyone',
+  template: '{nickname} says {message}',
+  skipLinks: true,
+  skipCommands: true,
+  maxLength: 150,
+  maxBacklog: 5,
+  voice: defaultTtsVoice,
+};
+
+const defaultWordFilter: WordFilterSettings = {
+  enabled: false,
+  words: [],
+  action: 'replace',
+  replacement: '***',
+  normalizeLeetspeak: true,
+};
+
+const defaultLeaderboard: LeaderboardSettings = {
+  trackAllTime: false,
+  overlayScope: 'session',
+  overlayLimit: 5,
+  overlayTitle: 'Top Gifters',
+};
+
+const defaultDiamondGoal: DiamondGoalSettings = {
+  enabled: false,
+  title: 'Diamond Goal',
+  target: 5000,
+  audioFiles: [],
+  message: 'Goal reached! {target} 💎',
+};
+
 const defaultSettings: AppSettings = {
   lastUsername: '',
   giftAudioMappings: {},
+  mappingProfiles: {},
+  roomProfiles: {},
+  diamondTiers: {},
+  chatCommands: {},
+  eventAudioMappings: {},
+  likeMilestones: defaultLikeMilestones,
+  viewerMilestones: defaultViewerMilestones,
+  vipEntrances: {},
+  userAccessList: {},
+  userAccess: defaultUserAccess,
+  reconnect: defaultReconnect,
+  dedup: defaultDedup,
+  giftCooldown: defaultGiftCooldown,
+  queueLimits: defaultQueueLimits,
+  giftTts: defaultGiftTts,
+  chatTts: defaultChatTts,
+  wordFilter: defaultWordFilter,
+  leaderboard: defaultLeaderboard,
+  leaderboardAllTime: {},
+  diamondGoal: defaultDiamondGoal,
+  diamondGoalProgress: 0,
   overlayPort: 3847,
   showGiftAnimation: true,
   globalVolume: 1.0,
   cachedGifts: [],
+  giftCatalogUpdatedAt: 0,
   giftSortOrder: 'none',
   audioFileNames: {},
   audioFileVolumes: {},
@@ -58,10 +431,32 @@ class StorageService {
     const settings = {
       lastUsername: this.store.get('lastUsername', ''),
       giftAudioMappings: this.store.get('giftAudioMappings', {}),
+      mappingProfiles: this.store.get('mappingProfiles', {}),
+      roomProfiles: this.store.get('roomProfiles', {}),
+      diamondTiers: this.store.get('diamondTiers', {}),
+      chatCommands: this.store.get('chatCommands', {}),
+      eventAudioMappings: this.store.get('eventAudioMappings', {}),
+      likeMilestones: this.getLikeMilestones(),
+      viewerMilestones: this.getViewerMilestones(),
+      vipEntrances: this.store.get('vipEntrances', {}),
+      userAccessList: this.getUserAccessList(),
+      userAccess: this.getUserAccessSettings(),
+      reconnect: this.getReconnectSettings(),
+      dedup: this.getDedupSettings(),
+      giftCooldown: this.getGiftCooldownSettings(),
+      queueLimits: this.getQueueLimits(),
+      giftTts: this.getGiftTts(),
+      chatTts: this.getChatTts(),
+      wordFilter: this.getWordFilter(),
+      leaderboard: this.getLeaderboardSettings(),
+      leaderboardAllTime: this.getLeaderboardAllTime(),
+      diamondGoal: this.getDiamondGoal(),
+      diamondGoalProgress: this.getDiamondGoalProgress(),
       overlayPort: this.store.get('overlayPort', 3847),
       showGiftAnimation: this.store.get('showGiftAnimation', true),
       globalVolume: this.store.get('globalVolume', 1.0),
       cachedGifts: this.store.get('cachedGifts', []),
+      giftCatalogUpdatedAt: this.getGiftCatalogUpdatedAt(),
       giftSortOrder: this.store.get('giftSortOrder', 'none'),
       audioFileNames: this.store.get('audioFileNames', {}),
       audioFileVolumes: this.store.get('audioFileVolumes', {}),
@@ -128,13 +523,29 @@ class StorageService {
     this.store.set('giftSortOrder', order);
   }
 
-  setGiftAudio(mapping: GiftAudioMapping): void {
+  setGiftAudio(mapping: GiftAudioMapping, profileId?: string): void {
+    if (profileId) {
+      const profile = this.getMappingProfile(profileId);
+      if (!profile) return;
+      profile.giftAudioMappings[mapping.giftId] = mapping;
+      this.setMappingProfile(profile);
+      return;
+    }
+
     const mappings = this.store.get('giftAudioMappings', {});
     mappings[mapping.giftId] = mapping;
     this.store.set('giftAudioMappings', mappings);
   }
 
-  removeGiftAudio(giftId: string): void {
+  removeGiftAudio(giftId: string, profileId?: string): void {
+    if (profileId) {
+      const profile = this.getMappingProfile(profileId);
+      if (!profile) return;
+      delete profile.giftAudioMappings[giftId];
+      this.setMappingProfile(profile);
+      return;
+    }
+
     const mappings = this.store.get('giftAudioMappings', {});
     delete mappings[giftId];
     this.store.set('giftAudioMappings', mappings);
@@ -164,9 +575,70 @@ class StorageService {
     if (hasChanges) {
       this.store.set('giftAudioMappings', mappings);
     }
+
+    const profiles = this.store.get('mappingProfiles', {});
+    let profilesChanged = false;
+    for (const id in profiles) {
+      for (const giftId in profiles[id].giftAudioMappings) {
+        const mapping = profiles[id].giftAudioMappings[giftId];
+        const remainingFiles = mapping.audioFiles.filter(file => file.path !== audioPath);
+        if (remainingFiles.length !== mapping.audioFiles.length) {
+          mapping.audioFiles = remainingFiles;
+          profilesChanged = true;
+        }
+      }
+    }
+    if (profilesChanged) {
+      this.store.set('mappingProfiles', profiles);
+    }
+
+    this.removeAudioFromPlaylists('chatCommands', audioPath);
+    this.removeAudioFromPlaylists('eventAudioMappings', audioPath);
+    this.removeAudioFromPlaylists('vipEntrances', audioPath);
+    this.removeAudioFromPlaylists('diamondTiers', audioPath);
+
+    const likeMilestones = this.getLikeMilestones();
+    const remaining = likeMilestones.audioFiles.filter(file => file.path !== audioPath);
+    if (remaining.length !== likeMilestones.audioFiles.length) {
+      this.setLikeMilestones({ ...likeMilestones, audioFiles: remaining });
+    }
+
+    const viewerMilestones = this.getViewerMilestones();
+    const remainingViewerAudio = viewerMilestones.audioFiles.filter(file => file.path !== audioPath);
+    if (remainingViewerAudio.length !== viewerMilestones.audioFiles.length) {
+      this.setViewerMilestones({ ...viewerMilestones, audioFiles: remainingViewerAudio });
+    }
+
+    const diamondGoal = this.getDiamondGoal();
+    const remainingGoalAudio = diamondGoal.audioFiles.filter(file => file.path !== audioPath);
+    if (remainingGoalAudio.length !== diamondGoal.audioFiles.length) {
+      this.setDiamondGoal({ ...diamondGoal, audioFiles: remainingGoalAudio });
+    }
+  }
+
+  private removeAudioFromPlaylists(key: 'chatCommands' | 'eventAudioMappings' | 'vipEntrances' | 'diamondTiers', audioPath: string): void {
+    const playlists = this.store.get(key, {}) as Record<string, { audioFiles: AudioFileEntry[] }>;
+    let hasChanges = false;
+
+    for (const id in playlists) {
+      const playlist = playlists[id];
+      const originalLength = playlist.audioFiles.length;
+      playlist.audioFiles = playlist.audioFiles.filter(file => file.path !== audioPath);
+      if (playlist.audioFiles.length !== originalLength) {
+        hasChanges = true;
+      }
+    }
+
+    if (hasChanges) {
+      this.store.set(key, playlists);
+    }
   }
 
-  getGiftAudio(giftId: string): GiftAudioMapping | undefined {
+  // A room's profile mapping wins; gifts the profile doesn't cover fall back to the default set
+  getGiftAudio(giftId: string, profileId?: string): GiftAudioMapping | undefined {
+    const profileMapping = profileId ? this.getMappingProfile(profileId)?.giftAudioMappings[giftId] : undefined;
+    if (profileMapping) return profileMapping;
+
     const mappings = this.store.get('giftAudioMappings', {});
     const mapping = mappings[giftId] as any;
     if (!mapping) return undefined;
@@ -187,10 +659,260 @@ class StorageService {
     return mapping as GiftAudioMapping;
   }
 
-  getAllGiftMappings(): Record<string, GiftAudioMapping> {
+  getAllGiftMappings(profileId?: string): Record<string, GiftAudioMapping> {
+    if (profileId) {
+      return this.getMappingProfile(profileId)?.giftAudioMappings || {};
+    }
     return this.store.get('giftAudioMappings', {});
   }
 
+  setDiamondTier(tier: DiamondTier): void {
+    const tiers = this.store.get('diamondTiers', {});
+    tiers[tier.id] = tier;
+    this.store.set('diamondTiers', tiers);
+  }
+
+  removeDiamondTier(id: string): void {
+    const tiers = this.store.get('diamondTiers', {});
+    delete tiers[id];
+    this.store.set('diamondTiers', tiers);
+  }
+
+  getAllDiamondTiers(): Record<string, DiamondTier> {
+    return this.store.get('diamondTiers', {});
+  }
+
+  // When ranges overlap the tightest one (highest minimum) wins
+  findDiamondTier(diamonds: number): DiamondTier | undefined {
+    if (diamonds <= 0) return undefined;
+
+    return Object.values(this.getAllDiamondTiers())
+      .filter(t => t.enabled && diamonds >= t.minDiamonds && (t.maxDiamonds === 0 || diamonds <= t.maxDiamonds))
+      .sort((a, b) => b.minDiamonds - a.minDiamonds)[0];
+  }
+
+  getMappingProfile(id: string): MappingProfile | undefined {
+    return this.store.get('mappingProfiles', {})[id];
+  }
+
+  getAllMappingProfiles(): Record<string, MappingProfile> {
+    return this.store.get('mappingProfiles', {});
+  }
+
+  setMappingProfile(profile: MappingProfile): void {
+    const profiles = this.store.get('mappingProfiles', {});
+    profiles[profile.id] = profile;
+    this.store.set('mappingProfiles', profiles);
+  }
+
+  removeMappingProfile(id: string): void {
+    const profiles = this.store.get('mappingProfiles', {});
+    delete profiles[id];
+    this.store.set('mappingProfiles', profiles);
+
+    // Rooms using the deleted profile go back to the default mappings
+    const roomProfiles = this.store.get('roomProfiles', {});
+    for (const room in roomProfiles) {
+      if (roomProfiles[room] === id) delete roomProfiles[room];
+    }
+    this.store.set('roomProfiles', roomProfiles);
+  }
+
+  getRoomProfile(room: string): string | undefined {
+    return this.store.get('roomProfiles', {})[room];
+  }
+
+  getAllRoomProfiles(): Record<string, string> {
+    return this.store.get('roomProfiles', {});
+  }
+
+  setRoomProfile(room: string, profileId: string): void {
+    const roomProfiles = this.store.get('roomProfiles', {});
+    if (profileId) {
+      roomProfiles[room] = profileId;
+    } else {
+      delete roomProfiles[room];
+    }
+    this.store.set('roomProfiles', roomProfiles);
+  }
+
+  setChatCommand(command: ChatCommand): void {
+    const commands = this.store.get('chatCommands', {});
+    commands[command.id] = command;
+    this.store.set('chatCommands', commands);
+  }
+
+  removeChatCommand(id: string): void {
+    const commands = this.store.get('chatCommands', {});
+    delete commands[id];
+    this.store.set('chatCommands', commands);
+  }
+
+  getAllChatCommands(): Record<string, ChatCommand> {
+    return this.store.get('chatCommands', {});
+  }
+
+  setEventAudio(mapping: EventAudioMapping): void {
+    const mappings = this.store.get('eventAudioMappings', {});
+    mappings[mapping.eventType] = mapping;
+    this.store.set('eventAudioMappings', mappings);
+  }
+
+  getEventAudio(eventType: EventTriggerType): EventAudioMapping | undefined {
+    const mappings = this.store.get('eventAudioMappings', {});
+    return mappings[eventType];
+  }
+
+  getAllEventMappings(): Partial<Record<EventTriggerType, EventAudioMapping>> {
+    return this.store.get('eventAudioMappings', {});
+  }
+
+  setVipEntrance(entrance: VipEntrance): void {
+    const entrances = this.store.get('vipEntrances', {});
+    entrances[entrance.id] = entrance;
+    this.store.set('vipEntrances', entrances);
+  }
+
+  removeVipEntrance(id: string): void {
+    const entrances = this.store.get('vipEntrances', {});
+    delete entrances[id];
+    this.store.set('vipEntrances', entrances);
+  }
+
+  getAllVipEntrances(): Record<string, VipEntrance> {
+    return this.store.get('vipEntrances', {});
+  }
+
+  setUserAccessEntry(entry: UserAccessEntry): void {
+    const entries = this.store.get('userAccessList', {});
+    entries[entry.id] = entry;
+    this.store.set('userAccessList', entries);
+  }
+
+  removeUserAccessEntry(id: string): void {
+    const entries = this.store.get('userAccessList', {});
+    delete entries[id];
+    this.store.set('userAccessList', entries);
+  }
+
+  getUserAccessList(): Record<string, UserAccessEntry> {
+    return this.store.get('userAccessList', {});
+  }
+
+  getUserAccessSettings(): UserAccessSettings {
+    return { ...defaultUserAccess, ...this.store.get('userAccess', defaultUserAccess) };
+  }
+
+  setUserAccessSettings(settings: UserAccessSettings): void {
+    this.store.set('userAccess', settings);
+  }
+
+  getLikeMilestones(): LikeMilestoneSettings {
+    return { ...defaultLikeMilestones, ...this.store.get('likeMilestones', defaultLikeMilestones) };
+  }
+
+  setLikeMilestones(settings: LikeMilestoneSettings): void {
+    this.store.set('likeMilestones', settings);
+  }
+
+  getViewerMilestones(): ViewerMilestoneSettings {
+    return { ...defaultViewerMilestones, ...this.store.get('viewerMilestones', defaultViewerMilestones) };
+  }
+
+  setViewerMilestones(settings: ViewerMilestoneSettings): void {
+    this.store.set('viewerMilestones', settings);
+  }
+
+  getReconnectSettings(): ReconnectSettings {
+    return { ...defaultReconnect, ...this.store.get('reconnect', defaultReconnect) };
+  }
+
+  setReconnectSettings(settings: ReconnectSettings): void {
+    this.store.set('reconnect', settings);
+  }
+
+  getDedupSettings(): DedupSettings {
+    return { ...defaultDedup, ...this.store.get('dedup', defaultDedup) };
+  }
+
+  setDedupSettings(settings: DedupSettings): void {
+    this.store.set('dedup', settings);
+  }
+
+  getGiftCooldownSettings(): GiftCooldownSettings {
+    return { ...defaultGiftCooldown, ...this.store.get('giftCooldown', defaultGiftCooldown) };
+  }
+
+  setGiftCooldownSettings(settings: GiftCooldownSettings): void {
+    this.store.set('giftCooldown', settings);
+  }
+
+  getQueueLimits(): QueueLimitSettings {
+    return { ...defaultQueueLimits, ...this.store.get('queueLimits', defaultQueueLimits) };
+  }
+
+  setQueueLimits(settings: QueueLimitSettings): void {
+    this.store.set('queueLimits', settings);
+  }
+
+  getGiftTts(): GiftTtsSettings {
+    const stored = this.store.get('giftTts', defaultGiftTts);
+    return { ...defaultGiftTts, ...stored, voice: { ...defaultTtsVoice, ...stored.voice } };
+  }
+
+  setGiftTts(settings: GiftTtsSettings): void {
+    this.store.set('giftTts', settings);
+  }
+
+  getChatTts(): ChatTtsSettings {
+    const stored = this.store.get('chatTts', defaultChatTts);
+    return { ...defaultChatTts, ...stored, voice: { ...defaultTtsVoice, ...stored.voice } };
+  }
+
+  setChatTts(settings: ChatTtsSettings): void {
+    this.store.set('chatTts', settings);
+  }
+
+  getWordFilter(): WordFilterSettings {
+    return { ...defaultWordFilter, ...this.store.get('wordFilter', defaultWordFilter) };
+  }
+
+  setWordFilter(settings: WordFilterSettings): void {
+    this.store.set('wordFilter', settings);
+  }
+
+  getLeaderboardSettings(): LeaderboardSettings {
+    return { ...defaultLeaderboard, ...this.store.get('leaderboard', defaultLeaderboard) };
+  }
+
+  setLeaderboardSettings(settings: LeaderboardSettings): void {
+    this.store.set('leaderboard', settings);
+  }
+
+  getLeaderboardAllTime(): Record<string, LeaderboardEntry> {
+    return this.store.get('leaderboardAllTime', {});
+  }
+
+  setLeaderboardAllTime(entries: Record<string, LeaderboardEntry>): void {
+    this.store.set('leaderboardAllTime', entries);
+  }
+
+  getDiamondGoal(): DiamondGoalSettings {
+    return { ...defaultDiamondGoal, ...this.store.get('diamondGoal', defaultDiamondGoal) };
+  }
+
+  setDiamondGoal(settings: DiamondGoalSettings): void {
+    this.store.set('diamondGoal', settings);
+  }
+
+  getDiamondGoalProgress(): number {
+    return this.store.get('diamondGoalProgress', 0);
+  }
+
+  setDiamondGoalProgress(progress: number): void {
+    this.store.set('diamondGoalProgress', progress);
+  }
+
 
   setCachedGifts(gifts: CachedGift[]): void {
     this.store.set('cachedGifts', gifts);
@@ -200,12 +922,26 @@ class StorageService {
     return this.store.get('cachedGifts', []);
   }
 
+  setGiftCatalogUpdatedAt(time: number): void {
+    this.store.set('giftCatalogUpdatedAt', time);
+  }
+
+  getGiftCatalogUpdatedAt(): number {
+    return this.store.get('giftCatalogUpdatedAt', 0);
+  }
+
   getGiftName(giftId: string): string | undefined {
     const gifts = this.getCachedGifts();
     const gift = gifts.find(g => g.id.toString() === giftId);
     return gift?.name;
   }
 
+  getGiftDiamonds(giftId: string): number | undefined {
+    const gifts = this.getCachedGifts();
+    const gift = gifts.find(g => g.id.toString() === giftId);
+    return gift?.diamondCount;
+  }
+
   // Audio duration storage
   setAudioDuration(audioId: string, duration: number): void {
     const durations = this.store.get('audioFileDurations', {} as Record<string, number>);
@@ -1,7 +1,10 @@
 import { TikTokLiveConnection, ControlEvent, WebcastEvent } from 'tiktok-live-connector';
+import type { TikTokLiveConnectionState, TikTokLiveConstructorConnectionOptions, User, WebcastGiftMessage, WebcastLinkMicBattle, WebcastRoomUserSeqMessage } from 'tiktok-live-connector';
 import { EventEmitter } from 'events';
+import { storageService, ReconnectSettings } from './storage';
 
 export interface GiftEvent {
+  room: string;
   userId: string;
   username: string;
   nickname: string;
@@ -11,22 +14,82 @@ export interface GiftEvent {
   diamondCount: number;
   isComboEnd: boolean;
   giftPictureUrl?: string;
+  // Gifts added since the previous update of the same streak
+  streakDelta?: number;
+  // True for the first message seen for a streak (or a gift that can't streak)
+  isStreakStart?: boolean;
+  isModerator?: boolean;
+  // Mapping profile a simulated gift plays with instead of its room's
+  profileId?: string;
+  // Set on gifts re-emitted by a session replay, which play but leave live state alone
+  replay?: boolean;
 }
 
 export interface ChatEvent {
+  room: string;
   userId: string;
   username: string;
   nickname: string;
   message: string;
+  isModerator?: boolean;
+  // Whether TikTok marks the viewer as a follower or past gifter of the host
+  isFollower?: boolean;
+  isGifter?: boolean;
 }
 
 export interface MemberEvent {
+  room: string;
   userId: string;
   username: string;
   nickname: string;
+  isModerator?: boolean;
+}
+
+export interface FollowEvent {
+  room: string;
+  userId: string;
+  username: string;
+  nickname: string;
+}
+
+export interface ShareEvent {
+  room: string;
+  userId: string;
+  username: string;
+  nickname: string;
+}
+
+export interface LikeEvent {
+  room: string;
+  userId: string;
+  username: string;
+  nickname: string;
+  likeCount: number;
+  totalLikeCount: number;
+}
+
+export interface SubscribeEvent {
+  room: string;
+  userId: string;
+  username: string;
+  nickname: string;
+}
+
+export type BattleResult = 'win' | 'lose' | 'draw';
+
+export interface BattleEvent {
+  room: string;
+  battleId: string;
+  // Points of the streamer this room belongs to, and of the strongest opponent
+  score: number;
+  opponentScore: number;
+  opponentNickname: string;
+  // Only set on battleEnd
+  result?: BattleResult;
 }
 
 export interface RoomInfo {
+  room: string;
   roomId: string;
   title: string;
   viewerCount: number;
@@ -34,201 +97,613 @@ export interface RoomInfo {
   profilePictureUrl: string;
 }
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+// The fields read from a gift in the room's available gifts list
+export interface AvailableGift {
+  id: number;
+  name: string;
+  diamondCount?: number;
+  diamond_count?: number;
+  image?: { url_list?: string[] };
+}
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'waiting' | 'error';
 
-class TikTokService extends EventEmitter {
+export interface ReconnectState {
+  attempt: number;
+  // 0 when retrying forever
+  maxAttempts: number;
+  // Epoch ms of the next retry or live check
+  nextRetryAt: number;
+  waitingForLive: boolean;
+}
+
+export interface RoomState {
+  room: string;
+  status: ConnectionStatus;
+  info: RoomInfo | null;
+  reconnect: ReconnectState | null;
+}
+
+export interface GiftProgress {
+  delta: number;
+  isStart: boolean;
+}
+
+// Webcast identifiers of a gift message, empty when the connector didn't provide them
+export interface GiftMessageIds {
+  msgId: string;
+  // Shared by every message of one combo, and by co-host rooms relaying it
+  groupId: string;
+}
+
+export interface DedupStats {
+  suppressed: number;
+  lastSuppressedAt: number;
+  lastRoom: string;
+}
+
+// enableExtendedGiftInfo puts the gift's details on the message itself
+type GiftMessage = WebcastGiftMessage & {
+  name?: string;
+  giftName?: string;
+  diamondCount?: number;
+  giftPictureUrl?: string;
+  image?: { urlList?: string[] };
+  msgId?: string;
+};
+
+// Older payloads used snake_case viewer counts
+type RoomUserMessage = WebcastRoomUserSeqMessage & {
+  viewer_count?: number;
+  total_user?: number;
+};
+
+// Returns null when the update is a duplicate or out of order and should be ignored
+type GiftTracker = (room: string, userId: string, giftId: string, repeatCount: number, isFinal: boolean, ids: GiftMessageIds) => GiftProgress | null;
+
+interface ModeratorFlags {
+  userIdentity?: { isModeratorOfAnchor?: boolean };
+  user?: { userAttr?: { isAdmin?: boolean } };
+}
+
+// Moderator flag as sent with gifts and chat, or the older admin attribute on the user
+function isModerator(data: ModeratorFlags): boolean {
+  return Boolean(data.userIdentity?.isModeratorOfAnchor || data.user?.userAttr?.isAdmin);
+}
+
+// linkMicBattle actions and results, numbered as in the webcast schema
+const BATTLE_ACTION_OPEN = 4;
+const BATTLE_ACTION_FINISH = 5;
+const BATTLE_ACTION_CUT_SHORT = 6;
+const BATTLE_RESULTS: Record<number, BattleResult> = { 0: 'win', 1: 'lose', 2: 'draw' };
+// linkMicArmies battleStatus for the final score
+const ARMIES_BATTLE_END = 2;
+
+interface BattleState {
+  id: string;
+  // Anchor userId -> points
+  scores: Map<string, number>;
+  nicknames: Map<string, string>;
+}
+
+// A single live connection. Every event it emits carries its room key (the lowercased username)
+class TikTokRoom extends EventEmitter {
   private connection: TikTokLiveConnection | null = null;
   private status: ConnectionStatus = 'disconnected';
-  private currentUsername: string = '';
-  
-  private recentGifts: Map<string, number> = new Map();
-  private readonly DEDUP_WINDOW_MS = 5000; 
-  private cleanupInterval: NodeJS.Timeout | null = null;
+  private info: RoomInfo | null = null;
+  // userId of the streamer, to tell our side of a battle from the opponents
+  private hostUserId = '';
+  private battle: BattleState | null = null;
+  private endedBattleId = '';
 
-  constructor() {
+  // Bumped on every connect/disconnect so stale retry loops know to stop
+  private generation = 0;
+  private reconnectAttempt = 0;
+  private reconnectState: ReconnectState | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private wakeRetry: (() => void) | null = null;
+
+  constructor(private readonly username: string, private readonly trackGift: GiftTracker) {
     super();
-    
-    this.cleanupInterval = setInterval(() => {
-        const now = Date.now();
-        for (const [k, timestamp] of this.recentGifts.entries()) {
-            if (now - timestamp > this.DEDUP_WINDOW_MS + 1000) {
-                this.recentGifts.delete(k);
-            }
-        }
-    }, 60000);
-    
-    
-    this.cleanupInterval.unref();
   }
 
   getStatus(): ConnectionStatus {
     return this.status;
   }
 
-  getCurrentUsername(): string {
-    return this.currentUsername;
+  getState(): RoomState {
+    return {
+      room: this.username,
+      status: this.status,
+      info: this.info,
+      reconnect: this.reconnectState,
+    };
   }
 
-  private isDuplicateGift(userId: string, giftId: string, repeatCount: number): boolean {
-    const key = `${userId}-${giftId}-${repeatCount}`;
-    const now = Date.now();
-    const lastSeen = this.recentGifts.get(key);
-    
-    
-    if (lastSeen && now - lastSeen < this.DEDUP_WINDOW_MS) {
-      return true; 
+  isConnected(): boolean {
+    return this.connection !== null && this.status === 'connected';
+  }
+
+  private setStatus(status: ConnectionStatus): void {
+    this.status = status;
+    this.emit('status', this.username, this.status);
+  }
+
+  private setReconnectState(state: ReconnectState | null): void {
+    this.reconnectState = state;
+    this.emit('reconnect', this.username, state);
+  }
+
+  private toRoomInfo(state: TikTokLiveConnectionState): RoomInfo {
+    this.hostUserId = (state?.roomInfo?.owner?.id_str || state?.roomInfo?.owner?.id)?.toString() || this.hostUserId;
+    return {
+      room: this.username,
+      roomId: state?.roomId?.toString() || '',
+      title: state?.roomInfo?.title || '',
+      viewerCount: state?.roomInfo?.stats?.total_user || state?.roomInfo?.user_count || 0,
+      nickname: state?.roomInfo?.owner?.nickname || this.username,
+      profilePictureUrl: state?.roomInfo?.owner?.avatar_thumb?.url_list?.[0] || '',
+    };
+  }
+
+  // Exponential backoff capped at maxDelay, with up to 50% jitter so clients don't retry in lockstep
+  private getBackoffDelay(attempt: number, settings: ReconnectSettings): number {
+    const base = Math.max(1, settings.baseDelaySeconds) * 1000;
+    const max = Math.max(base, settings.maxDelaySeconds * 1000);
+    const capped = Math.min(max, base * Math.pow(2, attempt - 1));
+    return Math.round(capped / 2 + Math.random() * (capped / 2));
+  }
+
+  // Resolves after ms, or early when disconnect() cancels the wait
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.wakeRetry = resolve;
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = null;
+        this.wakeRetry = null;
+        resolve();
+      }, ms);
+    });
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.wakeRetry) {
+      this.wakeRetry();
+      this.wakeRetry = null;
     }
-    
-    this.recentGifts.set(key, now);
-    return false;
   }
 
-  async connect(username: string): Promise<RoomInfo> {
-    if (this.connection) {
+  private assertCurrent(generation: number): void {
+    if (generation !== this.generation) {
+      throw new Error('Connection cancelled');
+    }
+  }
+
+  async connect(): Promise<RoomInfo> {
+    if (this.connection || this.reconnectState) {
       await this.disconnect();
     }
 
-    this.status = 'connecting';
-    this.currentUsername = username;
-    this.emit('status', this.status);
+    const generation = ++this.generation;
+    this.reconnectAttempt = 0;
+    this.setStatus('connecting');
 
     try {
-      const options: any = {
-        enableExtendedGiftInfo: true,
-      };
+      if (storageService.getReconnectSettings().waitForLive) {
+        await this.waitForLive(generation);
+      }
+      return await this.openConnection(generation);
+    } catch (error) {
+      if (generation !== this.generation) throw error;
 
-      this.connection = new TikTokLiveConnection(username, options);
+      console.error('Connection error:', error);
+      this.setReconnectState(null);
+      this.setStatus('error');
+      this.emit('error', this.username, (error instanceof Error && error.message) || 'Failed to connect');
+      throw error;
+    }
+  }
 
-      
-      this.connection.on(ControlEvent.CONNECTED, (state) => {
-        this.status = 'connected';
-        this.emit('status', this.status);
-        this.emit('connected', {
-          roomId: state?.roomId?.toString() || '',
-          title: state?.roomInfo?.title || '',
-          viewerCount: state?.roomInfo?.stats?.total_user || state?.roomInfo?.user_count || 0,
-          nickname: state?.roomInfo?.owner?.nickname || this.currentUsername,
-          profilePictureUrl: state?.roomInfo?.owner?.avatar_thumb?.url_list?.[0] || '',
-        });
-      });
+  // Polls the streamer's live status until they go live (or the wait is cancelled)
+  private async waitForLive(generation: number): Promise<void> {
+    const probe = new TikTokLiveConnection(this.username);
 
-      this.connection.on(ControlEvent.DISCONNECTED, () => {
-        this.status = 'disconnected';
-        this.emit('status', this.status);
-        this.emit('disconnected');
+    while (true) {
+      let isLive = false;
+      try {
+        isLive = await probe.fetchIsLive();
+      } catch (e) {
+        console.error('Live status check failed:', e);
+      }
+      this.assertCurrent(generation);
+      if (isLive) return;
+
+      const interval = Math.max(5, storageService.getReconnectSettings().liveCheckIntervalSeconds) * 1000;
+      this.setStatus('waiting');
+      this.setReconnectState({
+        attempt: this.reconnectAttempt,
+        maxAttempts: storageService.getReconnectSettings().maxAttempts,
+        nextRetryAt: Date.now() + interval,
+        waitingForLive: true,
       });
+      await this.sleep(interval);
+      this.assertCurrent(generation);
+    }
+  }
 
-      this.connection.on(ControlEvent.ERROR, (error) => {
-        console.error('TikTok connection error:', error);
-        
-        this.emit('error', 'Connection failed. Please check username and try again.');
+  // Retries after an unexpected disconnect until connected, out of attempts, or cancelled
+  private async reconnect(generation: number): Promise<void> {
+    while (generation === this.generation) {
+      const settings = storageService.getReconnectSettings();
+      if (!settings.enabled) {
+        this.setReconnectState(null);
+        this.setStatus('disconnected');
+        return;
+      }
+
+      if (settings.maxAttempts > 0 && this.reconnectAttempt >= settings.maxAttempts) {
+        this.setReconnectState(null);
+        this.setStatus('disconnected');
+        this.emit('error', this.username, `Gave up reconnecting after ${settings.maxAttempts} attempts`);
+        return;
+      }
+
+      this.reconnectAttempt++;
+      const delay = this.getBackoffDelay(this.reconnectAttempt, settings);
+      this.setStatus('reconnecting');
+      this.setReconnectState({
+        attempt: this.reconnectAttempt,
+        maxAttempts: settings.maxAttempts,
+        nextRetryAt: Date.now() + delay,
+        waitingForLive: false,
       });
 
-      
-      this.connection.on(WebcastEvent.GIFT, (rawData) => {
-        const data = rawData as any;
-        
-        
-        const user = data.user || {};
-        
-        
-        const imageUrl = data.image?.urlList?.[0] || data.giftPictureUrl || '';
-        
-        const userId = user.userId?.toString() || '';
-        const giftId = data.giftId?.toString() || '';
-        const repeatCount = data.repeatCount || 1;
-        const isFinalGift = data.repeatEnd === undefined || data.repeatEnd === null || Boolean(data.repeatEnd);
-        
-        const giftEvent: GiftEvent = {
-          userId,
-          username: user.uniqueId || '',
-          nickname: user.nickname || user.uniqueId || 'Anonymous',
-          giftId,
-          
-          giftName: data.name || data.giftName || 'Gift',
-          giftCount: repeatCount,
-          diamondCount: data.diamondCount || 0,
-          isComboEnd: isFinalGift,
-          giftPictureUrl: imageUrl,
-        };
+      await this.sleep(delay);
+      if (generation !== this.generation) return;
 
-        
-        if (isFinalGift && !this.isDuplicateGift(userId, giftId, repeatCount)) {
-          this.emit('giftFinal', giftEvent);
+      try {
+        if (settings.waitForLive) {
+          await this.waitForLive(generation);
         }
-      });
+        await this.openConnection(generation);
+        return;
+      } catch (error) {
+        if (generation !== this.generation) return;
+        console.error(`Reconnect attempt ${this.reconnectAttempt} failed:`, error);
+      }
+    }
+  }
 
-      
-      this.connection.on(WebcastEvent.CHAT, (rawData) => {
-        const data = rawData as any;
-        const user = data.user || {};
-        const chatEvent: ChatEvent = {
-          userId: user.userId?.toString() || '',
-          username: user.uniqueId || '',
-          nickname: user.nickname || user.uniqueId || '',
-          message: data.comment || '',
-        };
-        this.emit('chat', chatEvent);
-      });
+  private async openConnection(generation: number): Promise<RoomInfo> {
+    const options: TikTokLiveConstructorConnectionOptions = {
+      enableExtendedGiftInfo: true,
+    };
 
-      
-      this.connection.on(WebcastEvent.MEMBER, (rawData) => {
-        const data = rawData as any;
-        const user = data.user || {};
-        const memberEvent: MemberEvent = {
-          userId: user.userId?.toString() || '',
-          username: user.uniqueId || '',
-          nickname: user.nickname || user.uniqueId || '',
-        };
-        this.emit('member', memberEvent);
-      });
+    const connection = new TikTokLiveConnection(this.username, options);
+    this.connection = connection;
+
+    
+    connection.on(ControlEvent.CONNECTED, (state) => {
+      if (this.connection !== connection) return;
+      this.info = this.toRoomInfo(state);
+      this.setStatus('connected');
+      this.emit('connected', this.info);
+    });
+
+    // An unexpected drop: our own disconnect() clears this.connection first
+    connection.on(ControlEvent.DISCONNECTED, () => {
+      if (this.connection !== connection) return;
+      this.connection = null;
+      this.info = null;
+      this.emit('disconnected', this.username);
+      this.reconnect(generation);
+    });
 
+    connection.on(ControlEvent.ERROR, (error) => {
+      console.error('TikTok connection error:', error);
       
-      this.connection.on(WebcastEvent.ROOM_USER, (rawData) => {
-        const data = rawData as any;
-        
-        this.emit('roomStats', {
-          viewerCount: data.viewerCount || data.viewer_count || data.total_user || 0,
-        });
-      });
+      this.emit('error', this.username, 'Connection failed. Please check username and try again.');
+    });
 
+    
+    connection.on(WebcastEvent.GIFT, (rawData) => {
+      const data: GiftMessage = rawData;
+      
       
-      const state = await this.connection.connect();
-      this.status = 'connected';
-      this.emit('status', this.status);
+      const user: Partial<User> = data.user || {};
       
-      return {
-        roomId: state?.roomId?.toString() || '',
-        title: state?.roomInfo?.title || '',
-        viewerCount: state?.roomInfo?.stats?.total_user || state?.roomInfo?.user_count || 0,
-        nickname: state?.roomInfo?.owner?.nickname || this.currentUsername,
-        profilePictureUrl: state?.roomInfo?.owner?.avatar_thumb?.url_list?.[0] || '',
+      
+      const imageUrl = data.image?.urlList?.[0] || data.giftPictureUrl || '';
+      
+      const userId = user.userId?.toString() || '';
+      const giftId = data.giftId?.toString() || '';
+      const repeatCount = data.repeatCount || 1;
+      const isFinalGift = data.repeatEnd === undefined || data.repeatEnd === null || Boolean(data.repeatEnd);
+      const groupId = data.groupId?.toString() || '';
+      const ids: GiftMessageIds = {
+        msgId: (data.common?.msgId || data.msgId)?.toString() || '',
+        groupId: groupId === '0' ? '' : groupId,
       };
-    } catch (error: any) {
-      console.error('Connection error:', error);
-      this.status = 'error';
-      this.emit('status', this.status);
-      this.emit('error', error?.message || 'Failed to connect');
+      
+      const giftEvent: GiftEvent = {
+        room: this.username,
+        userId,
+        username: user.uniqueId || '',
+        nickname: user.nickname || user.uniqueId || 'Anonymous',
+        giftId,
+        
+        giftName: data.name || data.giftName || 'Gift',
+        giftCount: repeatCount,
+        diamondCount: data.diamondCount || 0,
+        isComboEnd: isFinalGift,
+        giftPictureUrl: imageUrl,
+        isModerator: isModerator(data),
+      };
+
+      const progress = this.trackGift(this.username, userId, giftId, repeatCount, isFinalGift, ids);
+      if (!progress) return;
+
+      giftEvent.streakDelta = progress.delta;
+      giftEvent.isStreakStart = progress.isStart;
+
+      // Streak updates let mappings play while the combo is still running; giftFinal keeps the full count
+      this.emit(isFinalGift ? 'giftFinal' : 'giftStreak', giftEvent);
+    });
+
+    
+    connection.on(WebcastEvent.CHAT, (data) => {
+      const user: Partial<User> = data.user || {};
+      const chatEvent: ChatEvent = {
+        room: this.username,
+        userId: user.userId?.toString() || '',
+        username: user.uniqueId || '',
+        nickname: user.nickname || user.uniqueId || '',
+        message: data.comment || '',
+        isModerator: isModerator(data),
+        isFollower: Boolean(data.userIdentity?.isFollowerOfAnchor),
+        isGifter: Boolean(data.userIdentity?.isGiftGiverOfAnchor),
+      };
+      this.emit('chat', chatEvent);
+    });
+
+    
+    connection.on(WebcastEvent.MEMBER, (data) => {
+      const user: Partial<User> = data.user || {};
+      const memberEvent: MemberEvent = {
+        room: this.username,
+        userId: user.userId?.toString() || '',
+        username: user.uniqueId || '',
+        nickname: user.nickname || user.uniqueId || '',
+        isModerator: isModerator(data),
+      };
+      this.emit('member', memberEvent);
+    });
+
+    
+    connection.on(WebcastEvent.FOLLOW, (data) => {
+      const user: Partial<User> = data.user || {};
+      const followEvent: FollowEvent = {
+        room: this.username,
+        userId: user.userId?.toString() || '',
+        username: user.uniqueId || '',
+        nickname: user.nickname || user.uniqueId || '',
+      };
+      this.emit('follow', followEvent);
+    });
+
+    
+    connection.on(WebcastEvent.SHARE, (data) => {
+      const user: Partial<User> = data.user || {};
+      const shareEvent: ShareEvent = {
+        room: this.username,
+        userId: user.userId?.toString() || '',
+        username: user.uniqueId || '',
+        nickname: user.nickname || user.uniqueId || '',
+      };
+      this.emit('share', shareEvent);
+    });
+
+    
+    connection.on(WebcastEvent.LIKE, (data) => {
+      const user: Partial<User> = data.user || {};
+      const likeEvent: LikeEvent = {
+        room: this.username,
+        userId: user.userId?.toString() || '',
+        username: user.uniqueId || '',
+        nickname: user.nickname || user.uniqueId || '',
+        likeCount: data.likeCount || 0,
+        totalLikeCount: data.totalLikeCount || 0,
+      };
+      this.emit('like', likeEvent);
+    });
+
+    // Subscriptions arrive as a "super fan" barrage where the user is embedded in the display text
+    connection.on(WebcastEvent.SUPER_FAN, (data) => {
+      const userPiece = data.content?.piecesList?.find(piece => piece.userValue?.user);
+      const user: Partial<User> = userPiece?.userValue?.user || {};
+      const subscribeEvent: SubscribeEvent = {
+        room: this.username,
+        userId: user.userId?.toString() || '',
+        username: user.uniqueId || '',
+        nickname: user.nickname || user.uniqueId || '',
+      };
+      this.emit('subscribe', subscribeEvent);
+    });
+
+    
+    // Battles are opened and closed by linkMicBattle, linkMicArmies carries the running scores
+    connection.on(WebcastEvent.LINK_MIC_BATTLE, (data) => {
+      const battleId = data.battleId?.toString() || '';
+      if (!battleId) return;
+
+      if (data.action === BATTLE_ACTION_OPEN) {
+        if (this.battle?.id === battleId) return;
+        this.battle = { id: battleId, scores: new Map(), nicknames: new Map() };
+        this.readBattleAnchors(data.anchorInfo);
+        this.emit('battleStart', this.toBattleEvent());
+        return;
+      }
+
+      if (data.action === BATTLE_ACTION_FINISH || data.action === BATTLE_ACTION_CUT_SHORT) {
+        if (!this.useBattle(battleId)) return;
+        this.readBattleAnchors(data.anchorInfo);
+
+        let result: BattleResult | undefined;
+        for (const [userId, entry] of Object.entries(data.battleResult || {})) {
+          this.battle!.scores.set(userId, Number(entry?.score) || 0);
+          if (userId === this.hostUserId) {
+            result = BATTLE_RESULTS[entry?.result];
+          }
+        }
+        this.endBattle(result);
+      }
+    });
+
+    connection.on(WebcastEvent.LINK_MIC_ARMIES, (data) => {
+      const battleId = data.battleId?.toString() || '';
+      if (!battleId || !this.useBattle(battleId)) return;
+
+      const battle = this.battle!;
+      let changed = false;
+      for (const [userId, armies] of Object.entries(data.battleItems || {})) {
+        const score = Number(armies?.hostScore) || 0;
+        if (battle.scores.get(userId) !== score) {
+          battle.scores.set(userId, score);
+          changed = true;
+        }
+      }
+
+      if (data.battleStatus === ARMIES_BATTLE_END) {
+        this.endBattle();
+      } else if (changed) {
+        this.emit('battleScore', this.toBattleEvent());
+      }
+    });
+
+    
+    connection.on(WebcastEvent.ROOM_USER, (rawData) => {
+      const data: RoomUserMessage = rawData;
+      
+      const viewerCount = data.viewerCount || data.viewer_count || data.total_user || 0;
+      if (this.info) {
+        this.info = { ...this.info, viewerCount };
+      }
+      this.emit('roomStats', {
+        room: this.username,
+        viewerCount,
+      });
+    });
+
+    
+    let state: TikTokLiveConnectionState;
+    try {
+      state = await connection.connect();
+    } catch (error) {
+      if (this.connection === connection) {
+        this.connection = null;
+      }
       throw error;
     }
+    if (generation !== this.generation) {
+      connection.disconnect().catch(() => {});
+      throw new Error('Connection cancelled');
+    }
+
+    this.reconnectAttempt = 0;
+    this.info = this.toRoomInfo(state);
+    this.setReconnectState(null);
+    this.setStatus('connected');
+
+    return this.info;
   }
 
   async disconnect(): Promise<void> {
+    this.generation++;
+    this.cancelRetry();
+    this.reconnectAttempt = 0;
+    if (this.reconnectState) {
+      this.setReconnectState(null);
+    }
+
     if (this.connection) {
+      const connection = this.connection;
+      this.connection = null;
       try {
-        this.connection.disconnect();
+        connection.disconnect();
       } catch (e) {
         
       }
-      this.connection = null;
     }
-    this.status = 'disconnected';
-    this.currentUsername = '';
-    this.emit('status', this.status);
-    this.emit('disconnected');
+    this.info = null;
+    this.battle = null;
+    this.setStatus('disconnected');
+    this.emit('disconnected', this.username);
+  }
+
+  // Picks up a battle already running when we connected, without announcing a start for it
+  private useBattle(battleId: string): boolean {
+    if (battleId === this.endedBattleId) return false;
+    if (this.battle?.id !== battleId) {
+      this.battle = { id: battleId, scores: new Map(), nicknames: new Map() };
+    }
+    return true;
   }
 
-  async fetchAvailableGifts(): Promise<any[]> {
+  private readBattleAnchors(anchorInfo: WebcastLinkMicBattle['anchorInfo']): void {
+    if (!this.battle) return;
+
+    for (const [userId, anchor] of Object.entries(anchorInfo || {})) {
+      const user = anchor?.user;
+      this.battle.nicknames.set(userId, user?.nickName || user?.displayId || '');
+      if (!this.hostUserId && user?.displayId?.toLowerCase() === this.username) {
+        this.hostUserId = userId;
+      }
+    }
+  }
+
+  private toBattleEvent(result?: BattleResult): BattleEvent {
+    const battle = this.battle!;
+    let opponentId = '';
+    let opponentScore = 0;
+    for (const [userId, score] of battle.scores) {
+      if (userId !== this.hostUserId && (!opponentId || score > opponentScore)) {
+        opponentId = userId;
+        opponentScore = score;
+      }
+    }
+    if (!opponentId) {
+      opponentId = Array.from(battle.nicknames.keys()).find(id => id !== this.hostUserId) || '';
+    }
+
+    return {
+      room: this.username,
+      battleId: battle.id,
+      score: battle.scores.get(this.hostUserId) || 0,
+      opponentScore,
+      opponentNickname: battle.nicknames.get(opponentId) || '',
+      result,
+    };
+  }
+
+  // TikTok doesn't always say who won, so fall back to comparing the final scores
+  private endBattle(result?: BattleResult): void {
+    if (!this.battle) return;
+
+    const event = this.toBattleEvent(result);
+    if (!event.result) {
+      event.result = event.score > event.opponentScore ? 'win' : event.score < event.opponentScore ? 'lose' : 'draw';
+    }
+
+    this.endedBattleId = this.battle.id;
+    this.battle = null;
+    this.emit('battleEnd', event);
+  }
+
+  async fetchAvailableGifts(): Promise<AvailableGift[]> {
     if (!this.connection) {
       return [];
     }
@@ -241,4 +716,164 @@ class TikTokService extends EventEmitter {
   }
 }
 
+const ROOM_EVENTS = [
+  'status', 'connected', 'disconnected', 'error', 'reconnect',
+  'giftFinal', 'giftStreak', 'chat', 'member', 'follow', 'share', 'like', 'subscribe', 'roomStats',
+  'battleStart', 'battleScore', 'battleEnd',
+];
+
+// Rooms are keyed by the lowercased username they were opened with
+export function toRoomKey(username: string): string {
+  return username.trim().replace(/^@/, '').toLowerCase();
+}
+
+class TikTokService extends EventEmitter {
+  private rooms: Map<string, TikTokRoom> = new Map();
+
+  // Shared across rooms so a gift seen by two co-host connections only plays once. Values are expiry times.
+  private recentGifts: Map<string, number> = new Map();
+  // The user/gift/count fallback can't tell a resend from a real repeat, so it never looks back further than this
+  private readonly LEGACY_DEDUP_WINDOW_MS = 5000;
+  private dedupStats: DedupStats = { suppressed: 0, lastSuppressedAt: 0, lastRoom: '' };
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  // Streaks keyed by `room-userId-giftId`: last repeatCount seen and when. A finished streak stays
+  // until finishedUntil, so updates relayed after its final message don't start a new one.
+  private streaks: Map<string, { count: number; lastSeen: number; groupId: string; finishedUntil?: number }> = new Map();
+  private readonly STREAK_TIMEOUT_MS = 10000;
+
+  constructor() {
+    super();
+    
+    this.cleanupInterval = setInterval(() => {
+        const now = Date.now();
+        for (const [k, expiresAt] of this.recentGifts.entries()) {
+            if (now > expiresAt) {
+                this.recentGifts.delete(k);
+            }
+        }
+        for (const [k, streak] of this.streaks.entries()) {
+            if (now > (streak.finishedUntil ?? streak.lastSeen + this.STREAK_TIMEOUT_MS)) {
+                this.streaks.delete(k);
+            }
+        }
+    }, 60000);
+    
+    
+    this.cleanupInterval.unref();
+  }
+
+  getRooms(): RoomState[] {
+    return Array.from(this.rooms.values()).map(room => room.getState());
+  }
+
+  getStatus(room: string): ConnectionStatus {
+    return this.rooms.get(toRoomKey(room))?.getStatus() || 'disconnected';
+  }
+
+  getDedupStats(): DedupStats {
+    return { ...this.dedupStats };
+  }
+
+  resetDedupStats(): void {
+    this.dedupStats = { suppressed: 0, lastSuppressedAt: 0, lastRoom: '' };
+    this.emit('dedupStats', this.getDedupStats());
+  }
+
+  // Prefers the combo's groupId, then the message id. Only without either do we fall back to
+  // user/gift/count, which would also match a second identical gift sent right after the first.
+  private getDedupWindowMs(ids: GiftMessageIds): number {
+    const windowMs = storageService.getDedupSettings().windowSeconds * 1000;
+    return ids.groupId || ids.msgId ? windowMs : Math.min(windowMs, this.LEGACY_DEDUP_WINDOW_MS);
+  }
+
+  private isDuplicateGift(room: string, userId: string, giftId: string, repeatCount: number, ids: GiftMessageIds): boolean {
+    let key: string;
+    if (ids.groupId) {
+      key = `group:${userId}-${giftId}-${ids.groupId}-${repeatCount}`;
+    } else if (ids.msgId) {
+      key = `msg:${ids.msgId}`;
+    } else {
+      key = `legacy:${userId}-${giftId}-${repeatCount}`;
+    }
+
+    const now = Date.now();
+    const expiresAt = this.recentGifts.get(key);
+
+    if (expiresAt && now <= expiresAt) {
+      this.dedupStats = { suppressed: this.dedupStats.suppressed + 1, lastSuppressedAt: now, lastRoom: room };
+      console.log(`[Dedup] Suppressed duplicate gift ${giftId} x${repeatCount} from ${userId} on @${room} (${key.split(':')[0]} key)`);
+      this.emit('dedupStats', this.getDedupStats());
+      return true;
+    }
+
+    this.recentGifts.set(key, now + this.getDedupWindowMs(ids));
+    return false;
+  }
+
+  // Turns cumulative repeatCount updates into per-message deltas. Final messages still go through
+  // isDuplicateGift, streak updates are deduplicated by only accepting a higher count than last seen
+  private trackGift(room: string, userId: string, giftId: string, repeatCount: number, isFinal: boolean, ids: GiftMessageIds): GiftProgress | null {
+    const key = `${room}-${userId}-${giftId}`;
+    const now = Date.now();
+    let streak = this.streaks.get(key);
+
+    if (streak?.finishedUntil !== undefined) {
+      // Without a groupId, a count no higher than the final one can only be a late update
+      const sameStreak = streak.groupId && ids.groupId ? streak.groupId === ids.groupId : repeatCount <= streak.count;
+      if (!isFinal && sameStreak && now <= streak.finishedUntil) return null;
+      streak = undefined;
+    } else if (streak && now - streak.lastSeen > this.STREAK_TIMEOUT_MS) {
+      // A streak whose end we never saw shouldn't swallow the next one
+      streak = undefined;
+    }
+
+    if (isFinal) {
+      if (this.isDuplicateGift(room, userId, giftId, repeatCount, ids)) return null;
+      this.streaks.set(key, { count: repeatCount, lastSeen: now, groupId: ids.groupId, finishedUntil: now + this.getDedupWindowMs(ids) });
+      return { delta: Math.max(0, repeatCount - (streak?.count || 0)), isStart: !streak };
+    }
+
+    if (streak && repeatCount <= streak.count) return null;
+
+    this.streaks.set(key, { count: repeatCount, lastSeen: now, groupId: ids.groupId });
+    return { delta: repeatCount - (streak?.count || 0), isStart: !streak };
+  }
+
+  // Opens (or reopens) a room without touching the other connected rooms
+  async connect(username: string): Promise<RoomInfo> {
+    const key = toRoomKey(username);
+    let room = this.rooms.get(key);
+
+    if (!room) {
+      room = new TikTokRoom(key, (...args) => this.trackGift(...args));
+      for (const event of ROOM_EVENTS) {
+        room.on(event, (...args: unknown[]) => this.emit(event, ...args));
+      }
+      this.rooms.set(key, room);
+    }
+
+    return room.connect();
+  }
+
+  // Closes a single room, or every room when called without one
+  async disconnect(username?: string): Promise<void> {
+    const keys = username ? [toRoomKey(username)] : Array.from(this.rooms.keys());
+
+    for (const key of keys) {
+      const room = this.rooms.get(key);
+      if (!room) continue;
+
+      this.rooms.delete(key);
+      await room.disconnect();
+      room.removeAllListeners();
+    }
+  }
+
+  async fetchAvailableGifts(): Promise<AvailableGift[]> {
+    const room = Array.from(this.rooms.values()).find(r => r.isConnected());
+    return room ? room.fetchAvailableGifts() : [];
+  }
+}
+
 export const tiktokService = new TikTokService();
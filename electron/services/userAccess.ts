@@ -0,0 +1,35 @@
+import { storageService, UserAccessEntry } from './storage';
+
+export interface AccessUser {
+  userId: string;
+  username: string;
+  isModerator?: boolean;
+}
+
+// Why a user was kept from triggering a sound
+export type AccessDenial = 'blocked' | 'notAllowed';
+
+class UserAccessService {
+  private find(user: AccessUser): UserAccessEntry | undefined {
+    const username = user.username.toLowerCase();
+
+    return Object.values(storageService.getUserAccessList()).find((entry) => {
+      const key = entry.userKey.trim().replace(/^@/, '').toLowerCase();
+      return key !== '' && (key === username || key === user.userId);
+    });
+  }
+
+  // Returns undefined when the user may trigger sounds
+  check(user: AccessUser): AccessDenial | undefined {
+    const entry = this.find(user);
+    if (entry?.list === 'block') return 'blocked';
+
+    const settings = storageService.getUserAccessSettings();
+    if (!settings.allowlistOnly || entry?.list === 'allow') return undefined;
+    if (settings.allowModerators && user.isModerator) return undefined;
+
+    return 'notAllowed';
+  }
+}
+
+export const userAccessService = new UserAccessService();
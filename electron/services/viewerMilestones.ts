@@ -0,0 +1,73 @@
+import { storageService } from './storage';
+
+export interface ViewerMilestone {
+  room: string;
+  threshold: number;
+  viewerCount: number;
+  message: string;
+}
+
+interface ViewerSession {
+  roomId: string;
+  // Thresholds that already fired and are waiting to re-arm (if allowed)
+  fired: Set<number>;
+}
+
+class ViewerMilestoneService {
+  // Each connected room tracks its own viewer count, keyed by room key
+  private sessions: Map<string, ViewerSession> = new Map();
+
+  // Thresholds already exceeded when joining a new live count as fired, so connecting mid-stream stays silent
+  startSession(room: string, roomId: string, viewerCount: number): void {
+    const existing = this.sessions.get(room);
+    if (existing && roomId && roomId === existing.roomId) return;
+
+    const fired = new Set<number>();
+    const settings = storageService.getViewerMilestones();
+    for (const threshold of settings.thresholds) {
+      if (viewerCount >= threshold) {
+        fired.add(threshold);
+      }
+    }
+
+    this.sessions.set(room, { roomId, fired });
+  }
+
+  // Returns the highest threshold newly crossed by this viewer count, if any
+  update(room: string, viewerCount: number): ViewerMilestone | undefined {
+    const settings = storageService.getViewerMilestones();
+    if (!settings.enabled) return undefined;
+
+    const session = this.sessions.get(room);
+    if (!session) return undefined;
+
+    const crossed: number[] = [];
+
+    for (const threshold of settings.thresholds) {
+      if (session.fired.has(threshold)) {
+        const rearmBelow = threshold * (1 - settings.hysteresisPercent / 100);
+        if (!settings.oncePerSession && viewerCount < rearmBelow) {
+          session.fired.delete(threshold);
+        }
+        continue;
+      }
+
+      if (viewerCount >= threshold) {
+        session.fired.add(threshold);
+        crossed.push(threshold);
+      }
+    }
+
+    if (crossed.length === 0) return undefined;
+
+    const threshold = Math.max(...crossed);
+    return {
+      room,
+      threshold,
+      viewerCount,
+      message: settings.message.replace(/\{count\}/g, threshold.toLocaleString('en-US')),
+    };
+  }
+}
+
+export const viewerMilestoneService = new ViewerMilestoneService();
@@ -0,0 +1,44 @@
+import { MemberEvent } from './tiktok';
+import { storageService, VipEntrance } from './storage';
+
+interface EntranceSession {
+  roomId: string;
+  // Entrance ids already played in this session
+  greeted: Set<string>;
+}
+
+class VipEntranceService {
+  // Greetings are tracked per room key, so a VIP hopping between co-host rooms is welcomed in each
+  private sessions: Map<string, EntranceSession> = new Map();
+
+  startSession(room: string, roomId: string): void {
+    const existing = this.sessions.get(room);
+    if (existing && roomId && roomId === existing.roomId) return;
+
+    this.sessions.set(room, { roomId, greeted: new Set() });
+  }
+
+  // Returns the entrance configured for this viewer the first time they join during the session
+  match(event: MemberEvent): VipEntrance | undefined {
+    const username = event.username.toLowerCase();
+
+    const entrance = Object.values(storageService.getAllVipEntrances()).find((e) => {
+      const key = e.userKey.trim().replace(/^@/, '').toLowerCase();
+      return key !== '' && (key === username || key === event.userId);
+    });
+
+    if (!entrance || !entrance.enabled) return undefined;
+
+    let session = this.sessions.get(event.room);
+    if (!session) {
+      session = { roomId: '', greeted: new Set() };
+      this.sessions.set(event.room, session);
+    }
+    if (session.greeted.has(entrance.id)) return undefined;
+
+    session.greeted.add(entrance.id);
+    return entrance;
+  }
+}
+
+export const vipEntranceService = new VipEntranceService();
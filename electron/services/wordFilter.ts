@@ -0,0 +1,132 @@
+import { storageService, WordFilterSettings } from './storage';
+
+export interface WordFilterResult {
+  // Text with every match replaced
+  text: string;
+  // Banned-word entries that matched
+  matches: string[];
+  // True when a match means the whole text must be dropped
+  blocked: boolean;
+}
+
+interface CompiledEntry {
+  entry: string;
+  pattern: RegExp;
+}
+
+// Common leetspeak substitutions; each maps one character to one so match positions stay valid
+const LEET_MAP: Record<string, string> = {
+  '0': 'o',
+  '1': 'i',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '8': 'b',
+  '9': 'g',
+  '@': 'a',
+  '$': 's',
+  '!': 'i',
+  '|': 'l',
+};
+
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+
+// `/pattern/` entries are regular expressions; otherwise `*` matches any run of letters and the
+// entry must stand as a whole word. Plain entries are normalized like the text they're matched against.
+function compileEntry(entry: string, leetspeak: boolean): RegExp {
+  const regex = entry.match(/^\/(.+)\/$/);
+  if (regex) return new RegExp(regex[1], 'giu');
+
+  const body = entry
+    .split('*')
+    .map(part => normalize(part, leetspeak))
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join(`${WORD_CHAR}*`);
+  return new RegExp(`(?<!${WORD_CHAR})${body}(?!${WORD_CHAR})`, 'giu');
+}
+
+// Symbols only stand for letters inside a word ("b@d"); at its edges ("hell!", "@hell") they are
+// punctuation and must stay non-word characters for the boundary checks
+const LEET_SYMBOLS = new RegExp(`(?<=${WORD_CHAR})[@$!|]+(?=${WORD_CHAR})`, 'gu');
+
+function normalize(text: string, leetspeak: boolean): string {
+  const lowered = Array.from(text, (char) => {
+    const lower = char.toLowerCase();
+    // Keep the original when lowercasing changes the length, so indexes still line up
+    return lower.length === char.length ? lower : char;
+  }).join('');
+  if (!leetspeak) return lowered;
+
+  return lowered
+    .replace(LEET_SYMBOLS, (run) => Array.from(run, char => LEET_MAP[char]).join(''))
+    .replace(/[0-9]/g, (digit) => LEET_MAP[digit] || digit);
+}
+
+class WordFilterService {
+  // Word list the cached patterns were compiled from
+  private compiledKey = '';
+  private compiled: CompiledEntry[] = [];
+
+  private getPatterns(words: string[], leetspeak: boolean): CompiledEntry[] {
+    const key = JSON.stringify({ words, leetspeak });
+    if (key === this.compiledKey) return this.compiled;
+
+    this.compiled = [];
+    for (const raw of words) {
+      const entry = raw.trim();
+      if (!entry) continue;
+
+      try {
+        this.compiled.push({ entry, pattern: compileEntry(entry, leetspeak) });
+      } catch (e) {
+        console.warn(`[WordFilter] Invalid pattern ${entry}:`, e);
+      }
+    }
+    this.compiledKey = key;
+    return this.compiled;
+  }
+
+  // Checks text against the saved list, or against `settings` when testing unsaved changes
+  apply(text: string, settings: WordFilterSettings = storageService.getWordFilter()): WordFilterResult {
+    if (!settings.enabled || !text) return { text, matches: [], blocked: false };
+
+    const normalized = normalize(text, settings.normalizeLeetspeak);
+    const ranges: Array<[number, number]> = [];
+    const matches: string[] = [];
+
+    for (const { entry, pattern } of this.getPatterns(settings.words, settings.normalizeLeetspeak)) {
+      let found = false;
+      for (const match of normalized.matchAll(pattern)) {
+        if (!match[0]) continue;
+        ranges.push([match.index!, match.index! + match[0].length]);
+        found = true;
+      }
+      if (found) matches.push(entry);
+    }
+
+    if (matches.length === 0) return { text, matches, blocked: false };
+
+    // Overlapping matches become one replacement
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: Array<[number, number]> = [];
+    for (const [start, end] of ranges) {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+    }
+
+    // Replace from the end so earlier ranges keep their positions
+    let filtered = text;
+    for (const [start, end] of merged.reverse()) {
+      filtered = filtered.slice(0, start) + settings.replacement + filtered.slice(end);
+    }
+
+    return { text: filtered, matches, blocked: settings.action === 'drop' };
+  }
+}
+
+export const wordFilterService = new WordFilterService();
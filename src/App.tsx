@@ -7,14 +7,31 @@ import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
-import { Skeleton } from '@/components/ui/skeleton';
 import { Progress } from '@/components/ui/progress';
+import { Ban, RefreshCw, ShieldCheck } from 'lucide-react';
 import AudioLibraryTab from './components/AudioLibraryTab';
+import ChatCommandsTab from './components/ChatCommandsTab';
+import EventTriggersTab from './components/EventTriggersTab';
+import VipEntrancesTab from './components/VipEntrancesTab';
+import SessionsTab from './components/SessionsTab';
+import LeaderboardTab from './components/LeaderboardTab';
+import UserAccessTab, { addUserToAccessList } from './components/UserAccessTab';
+import { ReconnectSettingsCard } from './components/ReconnectSettingsCard';
+import { GiftDedupCard } from './components/GiftDedupCard';
+import { GiftCooldownCard } from './components/GiftCooldownCard';
+import { QueueLimitsCard } from './components/QueueLimitsCard';
+import { ChatTtsPendingList } from './components/ChatTtsPendingList';
+import { RoomList, RoomState, getRoomStatusLabel } from './components/RoomList';
+import { MappingProfileBar } from './components/MappingProfileBar';
+import { SimulatorCard } from './components/SimulatorCard';
+import { DiamondTiersSection } from './components/DiamondTiersSection';
+import { RepeatStrategyDialog, GiftRepeatSettings, defaultGiftRepeat, describeRepeat } from './components/RepeatStrategyDialog';
 import { AudioSelectionDialog } from './components/AudioSelectionDialog';
+import type { CachedGift } from '../electron/preload';
 
 
 interface RoomInfo {
+  room: string;
   roomId: string;
   title: string;
   viewerCount: number;
@@ -23,6 +40,7 @@ interface RoomInfo {
 }
 
 interface GiftEvent {
+  room: string;
   userId: string;
   username: string;
   nickname: string;
@@ -39,58 +57,115 @@ interface AudioFileEntry {
   volume: number;
 }
 
+type GiftStreakMode = 'increment' | 'start' | 'end';
+
 interface GiftAudioMapping {
   giftId: string;
   giftName: string;
   audioPath?: string;
   audioFiles: AudioFileEntry[];
   enabled: boolean;
+  streakMode?: GiftStreakMode;
+  repeat?: GiftRepeatSettings;
+  cooldownSeconds?: number;
+}
+
+const STREAK_MODES: Array<{ mode: GiftStreakMode; label: string; description: string }> = [
+  { mode: 'end', label: 'End', description: 'Play when the streak ends' },
+  { mode: 'increment', label: 'Each', description: 'Play for every gift as the streak grows' },
+  { mode: 'start', label: 'Start', description: 'Play once when the streak starts' },
+];
+
+interface MappingProfile {
+  id: string;
+  name: string;
+  giftAudioMappings: Record<string, GiftAudioMapping>;
 }
 
 interface AppSettings {
   lastUsername: string;
   giftAudioMappings: Record<string, GiftAudioMapping>;
+  mappingProfiles: Record<string, MappingProfile>;
+  roomProfiles: Record<string, string>;
   overlayPort: number;
   showGiftAnimation: boolean;
   globalVolume: number;
-  cachedGifts?: Array<{ id: number; name: string; diamondCount: number; imageUrl: string }>;
+  cachedGifts?: Array<{ id: number; name: string; diamondCount: number; imageUrl: string; isNew?: boolean; unavailable?: boolean }>;
+  giftCatalogUpdatedAt?: number;
   giftSortOrder: 'asc' | 'desc' | 'none';
   audioFileNames: Record<string, string>;
 }
 
 interface LogEntry {
   id: number;
-  type: 'info' | 'gift' | 'chat' | 'member' | 'error';
+  type: 'info' | 'gift' | 'chat' | 'member' | 'social' | 'error';
   message: string;
   time: string;
+  // Viewer behind the entry, so they can be blocked or allowed from the log
+  user?: LogUser;
 }
 
-type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+interface LogUser {
+  userId: string;
+  username: string;
+  nickname: string;
+}
+
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'waiting' | 'error';
+
+interface ReconnectState {
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt: number;
+  waitingForLive: boolean;
+}
+
+const toRoomKey = (username: string) => username.trim().replace(/^@/, '').toLowerCase();
 
 let logIdCounter = 0;
 
 function App() {
   
   const [username, setUsername] = useState('');
-  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
+  const [rooms, setRooms] = useState<Record<string, RoomState>>({});
+  const [now, setNow] = useState(Date.now());
   const [overlayUrl, setOverlayUrl] = useState('');
   const [overlayConnected, setOverlayConnected] = useState(0);
-  const [audioQueueProgress, setAudioQueueProgress] = useState({ current: 0, total: 0, remaining: 0, estimatedSeconds: 0 });
+  const [audioQueueProgress, setAudioQueueProgress] = useState({ current: 0, total: 0, remaining: 0, estimatedSeconds: 0, dropped: 0 });
 
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [giftMappings, setGiftMappings] = useState<Record<string, GiftAudioMapping>>({});
   const [searchTerm, setSearchTerm] = useState('');
   const [availableGifts, setAvailableGifts] = useState<any[]>([]);
-  const [roomInfo, setRoomInfo] = useState<RoomInfo | null>(null);
+  const [giftCatalogUpdatedAt, setGiftCatalogUpdatedAt] = useState(0);
+  const [refreshingGifts, setRefreshingGifts] = useState(false);
+  const [mappingProfiles, setMappingProfiles] = useState<Record<string, MappingProfile>>({});
+  const [roomProfiles, setRoomProfiles] = useState<Record<string, string>>({});
+  // '' edits the default mappings
+  const [activeProfileId, setActiveProfileId] = useState('');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc' | 'none'>('none');
   const [audioFileNames, setAudioFileNames] = useState<Record<string, string>>({});
   const [selectedTestGiftId, setSelectedTestGiftId] = useState('');
   const [testGiftDropdownOpen, setTestGiftDropdownOpen] = useState(false);
+  const [repeatGiftId, setRepeatGiftId] = useState<string | null>(null);
 
   
-  const addLog = useCallback((type: LogEntry['type'], message: string) => {
+  const addLog = useCallback((type: LogEntry['type'], message: string, user?: LogUser) => {
     const time = new Date().toLocaleTimeString('en-US', { hour12: false });
-    setLogs((prev) => [...prev.slice(-99), { id: logIdCounter++, type, message, time }]);
+    setLogs((prev) => [...prev.slice(-99), {
+      id: logIdCounter++,
+      type,
+      message,
+      time,
+      user: user && { userId: user.userId, username: user.username, nickname: user.nickname },
+    }]);
+  }, []);
+
+  const updateRoom = useCallback((room: string, updates: Partial<RoomState>) => {
+    setRooms((prev) => {
+      const existing: RoomState = prev[room] || { room, status: 'disconnected', info: null, reconnect: null };
+      return { ...prev, [room]: { ...existing, ...updates } };
+    });
   }, []);
 
   
@@ -102,12 +177,15 @@ function App() {
       setUsername(settings.lastUsername || '');
 
       setGiftMappings(settings.giftAudioMappings || {});
+      setMappingProfiles(settings.mappingProfiles || {});
+      setRoomProfiles(settings.roomProfiles || {});
       setSortOrder(settings.giftSortOrder || 'none');
       setAudioFileNames(settings.audioFileNames || {});
       
       if (settings.cachedGifts && settings.cachedGifts.length > 0) {
         setAvailableGifts(settings.cachedGifts);
       }
+      setGiftCatalogUpdatedAt(settings.giftCatalogUpdatedAt || 0);
     } catch (error) {
       console.error('Failed to load settings:', error);
     }
@@ -142,6 +220,10 @@ function App() {
         const url = await window.electronAPI.getOverlayUrl();
         setOverlayUrl(url);
 
+        // Rooms may already be open if the window was reloaded
+        const openRooms = await window.electronAPI.getRooms();
+        setRooms(Object.fromEntries(openRooms.map((room) => [room.room, room])));
+
         addLog('info', 'App initialized');
       } catch (error) {
         addLog('error', 'Failed to initialize: ' + error);
@@ -151,31 +233,91 @@ function App() {
     init();
 
     
-    const handleStatus = (status: ConnectionStatus) => setConnectionStatus(status);
+    const handleStatus = (data: { room: string; status: ConnectionStatus }) => updateRoom(data.room, { status: data.status });
     const handleConnected = (info: RoomInfo) => {
-      setConnectionStatus('connected');
-      setRoomInfo(info);
-      addLog('info', `✅ Connected to ${info.nickname || 'TikTok Live'}!`);
+      updateRoom(info.room, { status: 'connected', info });
+      addLog('info', `✅ Connected to ${info.nickname || 'TikTok Live'} (@${info.room})!`);
     };
-    const handleDisconnected = () => {
-      setRoomInfo(null);
-      addLog('info', '🔌 Disconnected from TikTok');
+    const handleDisconnected = (room: string) => {
+      updateRoom(room, { info: null });
+      addLog('info', `🔌 Disconnected from @${room}`);
     };
-    const handleError = (error: string) => addLog('error', '❌ ' + error);
-    const handleRoomStats = (stats: { viewerCount: number }) => {
-      setRoomInfo((prev) => prev ? { ...prev, viewerCount: stats.viewerCount } : null);
+    const handleError = (data: { room: string; message: string }) => addLog('error', `❌ @${data.room}: ${data.message}`);
+    const handleReconnect = (data: { room: string; state: ReconnectState | null }) => {
+      updateRoom(data.room, { reconnect: data.state });
+      if (data.state && !data.state.waitingForLive) {
+        const seconds = Math.max(0, Math.round((data.state.nextRetryAt - Date.now()) / 1000));
+        const attempts = data.state.maxAttempts > 0 ? `${data.state.attempt}/${data.state.maxAttempts}` : `${data.state.attempt}`;
+        addLog('info', `🔄 @${data.room}: reconnecting in ${seconds}s (attempt ${attempts})`);
+      }
+    };
+    const handleRoomStats = (stats: { room: string; viewerCount: number }) => {
+      setRooms((prev) => {
+        const room = prev[stats.room];
+        if (!room?.info) return prev;
+        return { ...prev, [stats.room]: { ...room, info: { ...room.info, viewerCount: stats.viewerCount } } };
+      });
     };
     const handleGift = (event: GiftEvent) => {
       const countStr = event.giftCount > 1 ? ` x${event.giftCount}` : '';
-      addLog('gift', `${event.nickname} sent ${event.giftName}${countStr}`);
+      addLog('gift', `${event.nickname} sent ${event.giftName}${countStr} · @${event.room}`, event);
+    };
+    const handleFollow = (event: LogUser) => addLog('social', `${event.nickname} followed`, event);
+    const handleShare = (event: LogUser) => addLog('social', `${event.nickname} shared the live`, event);
+    const handleSubscribe = (event: LogUser) => addLog('social', `${event.nickname} subscribed`, event);
+    const handleLikeMilestone = (data: { room: string; milestone: number }) => {
+      addLog('social', `🏆 ${data.milestone.toLocaleString('en-US')} likes reached on @${data.room}!`);
+    };
+    const handleViewerMilestone = (data: { room: string; threshold: number }) => {
+      addLog('info', `👀 ${data.threshold.toLocaleString('en-US')} viewers reached on @${data.room}!`);
+    };
+    const handleBattleStart = (data: { room: string; opponentNickname: string }) => {
+      addLog('info', `⚔️ Battle started on @${data.room}${data.opponentNickname ? ` against ${data.opponentNickname}` : ''}`);
+    };
+    const handleBattleEnd = (data: { room: string; result: string; score: number; opponentScore: number }) => {
+      const outcome = data.result === 'win' ? 'won' : data.result === 'lose' ? 'lost' : 'drew';
+      addLog('info', `🏁 @${data.room} ${outcome} the battle ${data.score} x ${data.opponentScore}`);
+    };
+    const handleBattleLead = (data: { room: string; change: 'taken' | 'lost'; score: number; opponentScore: number }) => {
+      addLog('info', `${data.change === 'taken' ? '🚀 Took' : '😱 Lost'} the lead on @${data.room} (${data.score} x ${data.opponentScore})`);
+    };
+    const handleGoalCompleted = (data: { target: number }) => {
+      addLog('gift', `🎯 Diamond goal of ${data.target.toLocaleString('en-US')} reached!`);
     };
+    const handleVipEntered = (data: LogUser) => {
+      addLog('member', `👑 ${data.nickname} joined (VIP)`, data);
+    };
+    const handleChatCommand = (data: LogUser & { command: string }) => {
+      addLog('chat', `${data.nickname} used ${data.command}`, data);
+    };
+    const handleAudioSuppressed = (data: LogUser & { giftName: string; reason: 'mapping' | 'user' }) => {
+      const reason = data.reason === 'mapping' ? 'gift cooldown' : 'user limit';
+      addLog('info', `⏳ ${data.giftName} from ${data.nickname} not played (${reason})`, data);
+    };
+
+    // Gift images finished downloading, so the catalog now points at local copies
+    const handleGiftsUpdated = (gifts: CachedGift[]) => setAvailableGifts(gifts);
 
     window.electronAPI.on('tiktok:status', handleStatus);
     window.electronAPI.on('tiktok:connected', handleConnected);
     window.electronAPI.on('tiktok:disconnected', handleDisconnected);
     window.electronAPI.on('tiktok:error', handleError);
+    window.electronAPI.on('tiktok:reconnect', handleReconnect);
     window.electronAPI.on('tiktok:roomStats', handleRoomStats);
     window.electronAPI.on('tiktok:gift', handleGift);
+    window.electronAPI.on('tiktok:follow', handleFollow);
+    window.electronAPI.on('tiktok:share', handleShare);
+    window.electronAPI.on('tiktok:subscribe', handleSubscribe);
+    window.electronAPI.on('chat:commandTriggered', handleChatCommand);
+    window.electronAPI.on('likes:milestone', handleLikeMilestone);
+    window.electronAPI.on('viewers:milestone', handleViewerMilestone);
+    window.electronAPI.on('vip:entered', handleVipEntered);
+    window.electronAPI.on('goal:completed', handleGoalCompleted);
+    window.electronAPI.on('tiktok:battleStart', handleBattleStart);
+    window.electronAPI.on('tiktok:battleEnd', handleBattleEnd);
+    window.electronAPI.on('battle:lead', handleBattleLead);
+    window.electronAPI.on('audio:suppressed', handleAudioSuppressed);
+    window.electronAPI.on('tiktok:giftsUpdated', handleGiftsUpdated);
 
     
     const interval = setInterval(async () => {
@@ -191,10 +333,43 @@ function App() {
       window.electronAPI.off('tiktok:connected', handleConnected);
       window.electronAPI.off('tiktok:disconnected', handleDisconnected);
       window.electronAPI.off('tiktok:error', handleError);
+      window.electronAPI.off('tiktok:reconnect', handleReconnect);
       window.electronAPI.off('tiktok:roomStats', handleRoomStats);
       window.electronAPI.off('tiktok:gift', handleGift);
+      window.electronAPI.off('tiktok:follow', handleFollow);
+      window.electronAPI.off('tiktok:share', handleShare);
+      window.electronAPI.off('tiktok:subscribe', handleSubscribe);
+      window.electronAPI.off('chat:commandTriggered', handleChatCommand);
+      window.electronAPI.off('likes:milestone', handleLikeMilestone);
+      window.electronAPI.off('viewers:milestone', handleViewerMilestone);
+      window.electronAPI.off('vip:entered', handleVipEntered);
+      window.electronAPI.off('goal:completed', handleGoalCompleted);
+      window.electronAPI.off('tiktok:battleStart', handleBattleStart);
+      window.electronAPI.off('tiktok:battleEnd', handleBattleEnd);
+      window.electronAPI.off('battle:lead', handleBattleLead);
+      window.electronAPI.off('audio:suppressed', handleAudioSuppressed);
+      window.electronAPI.off('tiktok:giftsUpdated', handleGiftsUpdated);
     };
-  }, [addLog]);
+  }, [addLog, updateRoom]);
+
+  const roomList = Object.values(rooms);
+  const hasPendingRetry = roomList.some((room) => room.reconnect !== null);
+
+  // Tick once a second while a retry is pending so the countdowns stay current
+  useEffect(() => {
+    if (!hasPendingRetry) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasPendingRetry]);
+
+  // Configured/Available edit whichever profile is selected
+  useEffect(() => {
+    if (!window.electronAPI) return;
+    window.electronAPI.getAudioMappings(activeProfileId || undefined)
+      .then((mappings) => setGiftMappings(mappings || {}))
+      .catch((error) => console.error('Failed to load mappings:', error));
+  }, [activeProfileId]);
 
   // Poll queue size when overlay is connected
   useEffect(() => {
@@ -206,27 +381,113 @@ function App() {
   }, [overlayConnected]);
 
   
-  const handleConnect = async () => {
-    if (connectionStatus === 'connected') {
-      await window.electronAPI.disconnect();
-    } else {
-      if (!username.trim()) {
-        addLog('error', 'Please enter a username');
+  const connectRoom = async (name: string) => {
+    const room = toRoomKey(name);
+    updateRoom(room, { status: 'connecting' });
+    addLog('info', `Connecting to @${room}...`);
+    try {
+      await window.electronAPI.connect(room);
+      
+      const gifts = await window.electronAPI.fetchGifts();
+      const uniqueGifts = gifts.filter((gift: any, index: number, self: any[]) => 
+        index === self.findIndex((g) => g.id === gift.id)
+      );
+      setAvailableGifts(uniqueGifts);
+      if (!giftCatalogUpdatedAt && uniqueGifts.length > 0) setGiftCatalogUpdatedAt(Date.now());
+    } catch (error) {
+      if (String(error).includes('Connection cancelled')) {
+        addLog('info', `Connection to @${room} cancelled`);
         return;
       }
-      addLog('info', `Connecting to @${username}...`);
-      try {
-        await window.electronAPI.connect(username);
-        
-        const gifts = await window.electronAPI.fetchGifts();
-        const uniqueGifts = gifts.filter((gift: any, index: number, self: any[]) => 
-          index === self.findIndex((g) => g.id === gift.id)
-        );
-        setAvailableGifts(uniqueGifts);
-      } catch (error) {
-        addLog('error', 'Connection failed: ' + error);
+      addLog('error', `Connection to @${room} failed: ` + error);
+    }
+  };
+
+  const handleRefreshGifts = async () => {
+    setRefreshingGifts(true);
+    try {
+      const result = await window.electronAPI.refreshGifts();
+      if (!result) {
+        toast.error('Connect to a live to refresh the gift catalog');
+        return;
       }
+
+      setAvailableGifts(result.gifts);
+      setGiftCatalogUpdatedAt(result.updatedAt);
+      const changes = [
+        result.added > 0 && `${result.added} new`,
+        result.missing > 0 && `${result.missing} no longer available`,
+      ].filter(Boolean);
+      toast.success(`Gift catalog refreshed${changes.length > 0 ? `: ${changes.join(', ')}` : ''}`);
+    } catch {
+      toast.error('Failed to refresh gifts');
+    } finally {
+      setRefreshingGifts(false);
+    }
+  };
+
+  const handleClearNewGifts = async () => {
+    setAvailableGifts(await window.electronAPI.clearNewGifts());
+  };
+
+  const newGiftCount = availableGifts.filter(g => g.isNew && !giftMappings[g.id?.toString()]).length;
+
+  const handleConnect = async () => {
+    if (!username.trim()) {
+      addLog('error', 'Please enter a username');
+      return;
+    }
+    const room = toRoomKey(username);
+    if (rooms[room] && rooms[room].status !== 'error' && rooms[room].status !== 'disconnected') {
+      toast.info(`@${room} is already added`);
+      return;
     }
+    await connectRoom(room);
+  };
+
+  const handleRemoveRoom = async (room: string) => {
+    await window.electronAPI.disconnect(room);
+    setRooms((prev) => {
+      const copy = { ...prev };
+      delete copy[room];
+      return copy;
+    });
+  };
+
+  const handleSetRoomProfile = async (room: string, profileId: string) => {
+    await window.electronAPI.setRoomProfile(room, profileId);
+    setRoomProfiles((prev) => {
+      const copy = { ...prev };
+      if (profileId) {
+        copy[room] = profileId;
+      } else {
+        delete copy[room];
+      }
+      return copy;
+    });
+    const profileName = profileId ? mappingProfiles[profileId]?.name : 'default mappings';
+    addLog('info', `@${room} now uses ${profileName}`);
+  };
+
+  const handleCreateProfile = async (name: string) => {
+    const profile: MappingProfile = { id: crypto.randomUUID(), name, giftAudioMappings: {} };
+    await window.electronAPI.setMappingProfile(profile);
+    setMappingProfiles((prev) => ({ ...prev, [profile.id]: profile }));
+    setActiveProfileId(profile.id);
+    toast.success(`Profile "${name}" created`);
+  };
+
+  const handleRemoveProfile = async (profileId: string) => {
+    const profile = mappingProfiles[profileId];
+    await window.electronAPI.removeMappingProfile(profileId);
+    setMappingProfiles((prev) => {
+      const copy = { ...prev };
+      delete copy[profileId];
+      return copy;
+    });
+    setRoomProfiles((prev) => Object.fromEntries(Object.entries(prev).filter(([, id]) => id !== profileId)));
+    setActiveProfileId('');
+    toast.info(`Profile "${profile?.name}" deleted`);
   };
 
 
@@ -239,6 +500,15 @@ function App() {
 
   
   const handleClearLogs = () => setLogs([]);
+
+  const handleAccessFromLog = async (user: LogUser, list: 'block' | 'allow') => {
+    try {
+      await addUserToAccessList(user, list);
+      toast.success(list === 'block' ? `${user.nickname || user.username} blocked` : `${user.nickname || user.username} allowed`);
+    } catch {
+      toast.error('Failed to update user access');
+    }
+  };
   // Audio Queue Management
   const updateQueueSize = async () => {
     try {
@@ -252,7 +522,7 @@ function App() {
   const handleClearQueue = async () => {
     try {
       await window.electronAPI.clearOverlayQueue();
-      setAudioQueueProgress({ current: 0, total: 0, remaining: 0, estimatedSeconds: 0 });
+      setAudioQueueProgress({ current: 0, total: 0, remaining: 0, estimatedSeconds: 0, dropped: 0 });
       addLog('info', 'Audio queue cleared');
     } catch (error) {
       console.error('Failed to clear queue:', error);
@@ -289,7 +559,7 @@ function App() {
         enabled: existing?.enabled !== undefined ? existing.enabled : true,
       };
       
-      await window.electronAPI.setAudioMapping(mapping);
+      await window.electronAPI.setAudioMapping(mapping, activeProfileId || undefined);
       setGiftMappings((prev) => ({ ...prev, [selectedGiftId]: mapping }));
       
       const added = paths.filter(p => !existing?.audioFiles.some(e => e.path === p)).length;
@@ -315,7 +585,7 @@ function App() {
           const newFiles = existing.audioFiles.filter(entry => entry.path !== pathToRemove);
           const updated = { ...existing, audioFiles: newFiles };
           
-          await window.electronAPI.setAudioMapping(updated);
+          await window.electronAPI.setAudioMapping(updated, activeProfileId || undefined);
           setGiftMappings((prev) => ({ ...prev, [giftId]: updated }));
           toast.success('Audio removed from playlist');
       }
@@ -326,14 +596,14 @@ function App() {
     const existing = giftMappings[giftId];
     if (existing) {
       const updated = { ...existing, ...updates };
-      await window.electronAPI.setAudioMapping(updated);
+      await window.electronAPI.setAudioMapping(updated, activeProfileId || undefined);
       setGiftMappings((prev) => ({ ...prev, [giftId]: updated }));
     }
   };
 
   
   const handleRemoveMapping = async (giftId: string, giftName: string) => {
-    await window.electronAPI.removeAudioMapping(giftId);
+    await window.electronAPI.removeAudioMapping(giftId, activeProfileId || undefined);
     setGiftMappings((prev) => {
       const copy = { ...prev };
       delete copy[giftId];
@@ -347,7 +617,16 @@ function App() {
   const handleTestGift = async () => {
     const selectedMapping = giftMappings[selectedTestGiftId];
     if (selectedMapping) {
-      await window.electronAPI.triggerTestGift(selectedMapping.giftName);
+      // Test gifts come from the simulator room but play with the profile being edited
+      await window.electronAPI.simulateEvent({
+        type: 'gift',
+        user: 'test_user',
+        nickname: 'Test User',
+        giftId: selectedMapping.giftId,
+        giftName: selectedMapping.giftName,
+        count: 3,
+        profileId: activeProfileId,
+      });
       toast.success(`Testing: ${selectedMapping.giftName}`);
       addLog('info', `Test gift triggered: ${selectedMapping.giftName}`);
     } else {
@@ -372,12 +651,20 @@ function App() {
           <Badge variant={overlayConnected > 0 ? 'default' : 'secondary'} className={overlayConnected > 0 ? 'bg-green-600' : ''}>
             OBS: {overlayConnected > 0 ? `${overlayConnected} connected` : 'Not connected'}
           </Badge>
-          <Badge 
-            variant={connectionStatus === 'connected' ? 'default' : 'secondary'}
-            className={connectionStatus === 'connected' ? 'bg-green-600' : connectionStatus === 'connecting' ? 'bg-yellow-600' : ''}
-          >
-            {connectionStatus === 'connected' ? '● Connected' : connectionStatus === 'connecting' ? '◐ Connecting...' : '○ Disconnected'}
-          </Badge>
+          {roomList.length === 0 ? (
+            <Badge variant="secondary">○ Disconnected</Badge>
+          ) : (
+            roomList.map((room) => (
+              <Badge
+                key={room.room}
+                variant={room.status === 'connected' ? 'default' : 'secondary'}
+                className={room.status === 'connected' ? 'bg-green-600' : room.status === 'connecting' || room.status === 'reconnecting' || room.status === 'waiting' ? 'bg-yellow-600' : ''}
+                title={room.info?.title || undefined}
+              >
+                @{room.room} {getRoomStatusLabel(room, now)}
+              </Badge>
+            ))
+          )}
         </div>
       </header>
 
@@ -390,7 +677,7 @@ function App() {
           <Card>
             <CardHeader className="pb-3">
               <CardTitle className="text-base flex items-center gap-2">
-                <span>🔗</span> Connection
+                <span>🔗</span> Rooms
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
@@ -402,50 +689,36 @@ function App() {
                     type="text"
                     value={username}
                     onChange={(e) => setUsername(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleConnect()}
                     placeholder="username"
-                    disabled={connectionStatus === 'connecting'}
                     className="rounded-l-none flex-1"
                   />
                 </div>
               </div>
-              <Button
-                variant={connectionStatus === 'connected' ? 'destructive' : 'default'}
-                onClick={handleConnect}
-                disabled={connectionStatus === 'connecting'}
-                className="w-full"
-              >
-                {connectionStatus === 'connected' ? 'Disconnect' : connectionStatus === 'connecting' ? 'Connecting...' : 'Connect'}
+              <Button onClick={handleConnect} className="w-full">
+                {roomList.length > 0 ? 'Add Room' : 'Connect'}
               </Button>
 
-              
-              {connectionStatus === 'connecting' && (
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
-                  <Skeleton className="h-10 w-10 rounded-full" />
-                  <div className="space-y-2 flex-1">
-                    <Skeleton className="h-4 w-24" />
-                    <Skeleton className="h-3 w-16" />
-                  </div>
-                </div>
-              )}
-
-              {connectionStatus === 'connected' && roomInfo && (
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-green-500/10 border border-green-500/20">
-                  <Avatar size="lg">
-                    <AvatarImage src={roomInfo.profilePictureUrl} alt={roomInfo.nickname} />
-                    <AvatarFallback>{roomInfo.nickname?.charAt(0)?.toUpperCase() || '?'}</AvatarFallback>
-                  </Avatar>
-                  <div className="min-w-0 flex-1">
-                    <p className="font-medium text-sm truncate">{roomInfo.nickname}</p>
-                    <p className="text-xs text-muted-foreground">{roomInfo.viewerCount} viewers</p>
-                  </div>
-                  <Badge variant="secondary" className="bg-green-500/20 text-green-400 shrink-0">
-                    LIVE
-                  </Badge>
-                </div>
-              )}
+              <RoomList
+                rooms={roomList}
+                profiles={mappingProfiles}
+                roomProfiles={roomProfiles}
+                now={now}
+                onSetProfile={handleSetRoomProfile}
+                onReconnect={connectRoom}
+                onRemove={handleRemoveRoom}
+              />
             </CardContent>
           </Card>
 
+          <ReconnectSettingsCard />
+
+          <GiftDedupCard />
+
+          <GiftCooldownCard />
+
+          <QueueLimitsCard />
+
           
           <Card>
             <CardHeader className="pb-3">
@@ -541,6 +814,8 @@ function App() {
               </Button>
             </CardContent>
           </Card>
+
+          <SimulatorCard />
             </div>
           </ScrollArea>
         </aside>
@@ -560,6 +835,14 @@ function App() {
             />
           </div>
 
+          <MappingProfileBar
+            profiles={mappingProfiles}
+            activeProfileId={activeProfileId}
+            onSelect={setActiveProfileId}
+            onCreate={handleCreateProfile}
+            onRemove={handleRemoveProfile}
+          />
+
           <Tabs defaultValue="configured" className="flex-1 flex flex-col">
             <TabsList className="mb-4">
               <TabsTrigger value="configured">
@@ -574,14 +857,33 @@ function App() {
                   {availableGifts.filter(g => !giftMappings[g.id?.toString()]).length}
                 </Badge>
               </TabsTrigger>
+              <TabsTrigger value="vip">
+                VIP Entrances
+              </TabsTrigger>
+              <TabsTrigger value="events">
+                Events
+              </TabsTrigger>
+              <TabsTrigger value="commands">
+                Chat Commands
+              </TabsTrigger>
               <TabsTrigger value="library">
                 Audio Library
               </TabsTrigger>
+              <TabsTrigger value="leaderboard">
+                Leaderboard
+              </TabsTrigger>
+              <TabsTrigger value="access">
+                Access
+              </TabsTrigger>
+              <TabsTrigger value="history">
+                History
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="configured" className="flex-1 min-h-0">
               <ScrollArea className="h-[calc(100vh-180px)]">
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-1 pb-16">
+                <DiamondTiersSection audioFileNames={audioFileNames} />
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-1 pb-16 mt-4">
                 {filteredMappings.length === 0 ? (
                   <div className="col-span-full flex flex-col items-center justify-center py-12 text-muted-foreground">
                     <p className="text-lg">No audio mappings configured yet</p>
@@ -677,10 +979,57 @@ function App() {
                             </div>
                           )}
                         </div>
+
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-xs text-muted-foreground truncate">
+                            🔁 {describeRepeat(mapping.repeat || defaultGiftRepeat)}
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2 text-xs shrink-0"
+                            onClick={() => setRepeatGiftId(mapping.giftId)}
+                          >
+                            Repeat
+                          </Button>
+                        </div>
+
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-xs text-muted-foreground truncate">⏳ Cooldown (s)</span>
+                          <Input
+                            key={`${mapping.giftId}-${mapping.cooldownSeconds || 0}`}
+                            type="number"
+                            min={0}
+                            defaultValue={mapping.cooldownSeconds || 0}
+                            className="h-6 w-16 px-2 text-xs"
+                            title="Minimum seconds between two plays of this gift (0 = none)"
+                            onBlur={(e) => {
+                              const seconds = Math.max(0, Math.round(Number(e.target.value)) || 0);
+                              if (seconds !== (mapping.cooldownSeconds || 0)) {
+                                handleUpdateMapping(mapping.giftId, { cooldownSeconds: seconds });
+                              }
+                            }}
+                          />
+                        </div>
                       </CardContent>
                       
                       
-                      <div className="flex justify-end p-2 border-t border-border bg-muted/20">
+                      <div className="flex items-center justify-between p-2 border-t border-border bg-muted/20">
+                        <div className="flex items-center gap-1">
+                          <span className="text-[10px] text-muted-foreground mr-1">Streak:</span>
+                          {STREAK_MODES.map(({ mode, label, description }) => (
+                            <Button
+                              key={mode}
+                              variant={(mapping.streakMode || 'end') === mode ? 'secondary' : 'ghost'}
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              title={description}
+                              onClick={() => handleUpdateMapping(mapping.giftId, { streakMode: mode })}
+                            >
+                              {label}
+                            </Button>
+                          ))}
+                        </div>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -699,7 +1048,28 @@ function App() {
 
             <TabsContent value="available" className="flex-1 min-h-0">
               <div className="flex items-center justify-end px-1 pb-2 gap-2">
-                <span className="text-xs text-muted-foreground mr-1">Sort by Price:</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs px-2 gap-1"
+                  onClick={handleRefreshGifts}
+                  disabled={refreshingGifts}
+                >
+                  <RefreshCw className={`w-3 h-3 ${refreshingGifts ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+                <span className="text-xs text-muted-foreground">
+                  {giftCatalogUpdatedAt ? `Updated ${new Date(giftCatalogUpdatedAt).toLocaleString()}` : 'Never updated'}
+                </span>
+                {newGiftCount > 0 && (
+                  <>
+                    <Badge className="bg-green-600">{newGiftCount} new</Badge>
+                    <Button variant="ghost" size="sm" className="h-7 text-xs px-2" onClick={handleClearNewGifts}>
+                      Mark as seen
+                    </Button>
+                  </>
+                )}
+                <span className="text-xs text-muted-foreground mr-1 ml-auto">Sort by Price:</span>
                 <Button 
                   variant={sortOrder === 'asc' ? 'default' : 'outline'} 
                   size="sm" 
@@ -745,9 +1115,15 @@ function App() {
                     return (
                       <div
                         key={`gift-${gift.id}-${index}`}
-                        className="flex flex-col items-center p-3 rounded-lg border border-border bg-card hover:bg-accent cursor-pointer transition-colors"
+                        className={`relative flex flex-col items-center p-3 rounded-lg border bg-card hover:bg-accent cursor-pointer transition-colors ${
+                          gift.isNew ? 'border-green-500 ring-1 ring-green-500/50' : 'border-border'
+                        } ${gift.unavailable ? 'opacity-50' : ''}`}
+                        title={gift.unavailable ? 'Not in the latest refresh' : undefined}
                         onClick={() => handleSelectAudio(gift.id?.toString(), gift.name)}
                       >
+                        {gift.isNew && (
+                          <Badge className="absolute top-1 right-1 h-4 px-1 text-[9px] bg-green-600">NEW</Badge>
+                        )}
                         {imageUrl ? (
                           <img src={imageUrl} alt={gift.name} className="w-12 h-12 object-contain mb-2" />
                         ) : (
@@ -768,9 +1144,33 @@ function App() {
               </ScrollArea>
             </TabsContent>
 
+            <TabsContent value="vip" className="flex-1 min-h-0">
+              <VipEntrancesTab audioFileNames={audioFileNames} searchTerm={searchTerm} />
+            </TabsContent>
+
+            <TabsContent value="events" className="flex-1 min-h-0">
+              <EventTriggersTab audioFileNames={audioFileNames} />
+            </TabsContent>
+
+            <TabsContent value="commands" className="flex-1 min-h-0">
+              <ChatCommandsTab audioFileNames={audioFileNames} searchTerm={searchTerm} />
+            </TabsContent>
+
             <TabsContent value="library" className="flex-1 overflow-hidden p-0 m-0 border-none data-[state=active]:flex flex-col">
           <AudioLibraryTab onFilesUpdated={loadSettings} />
         </TabsContent>
+
+            <TabsContent value="leaderboard" className="flex-1 min-h-0">
+              <LeaderboardTab overlayUrl={overlayUrl} searchTerm={searchTerm} />
+            </TabsContent>
+
+            <TabsContent value="access" className="flex-1 min-h-0">
+              <UserAccessTab searchTerm={searchTerm} />
+            </TabsContent>
+
+            <TabsContent value="history" className="flex-1 min-h-0">
+              <SessionsTab searchTerm={searchTerm} />
+            </TabsContent>
           </Tabs>
         </section>
 
@@ -794,7 +1194,14 @@ function App() {
                   <div className="text-sm space-y-2">
                     <div className="flex justify-between text-muted-foreground">
                       <span>Playing</span>
-                      <span className="font-medium">{audioQueueProgress.current}/{audioQueueProgress.total}</span>
+                      <span className="flex items-center gap-2">
+                        {audioQueueProgress.dropped > 0 && (
+                          <span className="text-xs text-amber-400" title="Dropped by the queue limits in this burst">
+                            {audioQueueProgress.dropped} dropped
+                          </span>
+                        )}
+                        <span className="font-medium">{audioQueueProgress.current}/{audioQueueProgress.total}</span>
+                      </span>
                     </div>
                     {/* Progress Bar */}
                     <Progress value={(audioQueueProgress.current / audioQueueProgress.total) * 100} className="h-2" />
@@ -817,8 +1224,12 @@ function App() {
               ) : (
                 <div className="text-sm text-muted-foreground py-2">
                   No audio in queue
+                  {audioQueueProgress.dropped > 0 && (
+                    <span className="text-xs text-amber-400 ml-2">• {audioQueueProgress.dropped} dropped in the last burst</span>
+                  )}
                 </div>
               )}
+              <ChatTtsPendingList />
             </CardContent>
           </Card>
 
@@ -835,16 +1246,27 @@ function App() {
                   {[...logs].reverse().map((log) => (
                     <div 
                       key={log.id} 
-                      className={`flex gap-2 py-1 px-2 rounded ${
+                      className={`group flex gap-2 py-1 px-2 rounded ${
                         log.type === 'error' ? 'bg-red-500/10 text-red-400' :
                         log.type === 'gift' ? 'bg-green-500/10 text-green-400' :
                         log.type === 'chat' ? 'bg-blue-500/10 text-blue-400' :
                         log.type === 'member' ? 'bg-purple-500/10 text-purple-400' :
+                        log.type === 'social' ? 'bg-pink-500/10 text-pink-400' :
                         'bg-muted/30 text-muted-foreground'
                       }`}
                     >
                       <span className="text-xs opacity-60 shrink-0">{log.time}</span>
-                      <span className="overflow-wrap-anywhere">{log.message}</span>
+                      <span className="overflow-wrap-anywhere flex-1">{log.message}</span>
+                      {log.user && (
+                        <span className="flex gap-1 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button onClick={() => handleAccessFromLog(log.user!, 'block')} title="Block this user" className="hover:text-red-400">
+                            <Ban className="w-3 h-3" />
+                          </button>
+                          <button onClick={() => handleAccessFromLog(log.user!, 'allow')} title="Allow this user" className="hover:text-green-400">
+                            <ShieldCheck className="w-3 h-3" />
+                          </button>
+                        </span>
+                      )}
                     </div>
                   ))}
                   {logs.length === 0 && (
@@ -871,6 +1293,14 @@ function App() {
         onSave={handleAudiosSaved}
         currentPaths={selectedGiftId ? (giftMappings[selectedGiftId]?.audioFiles.map(e => e.path) || []) : []}
       />
+
+      <RepeatStrategyDialog
+        open={repeatGiftId !== null}
+        onOpenChange={(open) => !open && setRepeatGiftId(null)}
+        giftName={repeatGiftId ? giftMappings[repeatGiftId]?.giftName || '' : ''}
+        repeat={(repeatGiftId && giftMappings[repeatGiftId]?.repeat) || defaultGiftRepeat}
+        onSave={(repeat) => repeatGiftId && handleUpdateMapping(repeatGiftId, { repeat })}
+      />
     </div>
   );
 }
@@ -21,9 +21,10 @@ interface AudioSelectionDialogProps {
   onOpenChange: (open: boolean) => void;
   onSave: (paths: string[]) => void;
   currentPaths: string[]; 
+  description?: string;
 }
 
-export function AudioSelectionDialog({ open, onOpenChange, onSave, currentPaths }: AudioSelectionDialogProps) {
+export function AudioSelectionDialog({ open, onOpenChange, onSave, currentPaths, description = 'Select audio files to play when this gift is received.' }: AudioSelectionDialogProps) {
   const [files, setFiles] = useState<AudioFile[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [playingId, setPlayingId] = useState<string | null>(null);
@@ -140,7 +141,7 @@ export function AudioSelectionDialog({ open, onOpenChange, onSave, currentPaths
         <DialogHeader>
           <DialogTitle>Manage Audio Playlist</DialogTitle>
           <DialogDescription>
-            Select audio files to play when this gift is received. 
+            {description}
             {selectedCount > 0 && (
               <span className="ml-1 font-medium text-primary">
                 {selectedCount} selected
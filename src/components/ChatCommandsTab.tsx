@@ -0,0 +1,336 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { MessageSquare, Plus } from 'lucide-react';
+import { AudioSelectionDialog } from './AudioSelectionDialog';
+import { PlaylistChips } from './PlaylistChips';
+
+interface AudioFileEntry {
+  path: string;
+  volume: number;
+}
+
+interface ChatCommand {
+  id: string;
+  command: string;
+  aliases: string[];
+  argPattern: string;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+  cooldownSeconds: number;
+  userCooldownSeconds: number;
+}
+
+interface ChatCommandsTabProps {
+  audioFileNames: Record<string, string>;
+  searchTerm: string;
+}
+
+interface CommandForm {
+  command: string;
+  aliases: string;
+  argPattern: string;
+  cooldownSeconds: string;
+  userCooldownSeconds: string;
+}
+
+const emptyForm: CommandForm = {
+  command: '',
+  aliases: '',
+  argPattern: '',
+  cooldownSeconds: '10',
+  userCooldownSeconds: '60',
+};
+
+export default function ChatCommandsTab({ audioFileNames, searchTerm }: ChatCommandsTabProps) {
+  const [commands, setCommands] = useState<Record<string, ChatCommand>>({});
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<CommandForm>(emptyForm);
+
+  const [audioDialogOpen, setAudioDialogOpen] = useState(false);
+  const [playlistCommandId, setPlaylistCommandId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadCommands = async () => {
+      try {
+        const list = await window.electronAPI.getChatCommands();
+        setCommands(list || {});
+      } catch (error) {
+        console.error('Failed to load chat commands:', error);
+        toast.error('Failed to load chat commands');
+      }
+    };
+
+    loadCommands();
+  }, []);
+
+  const saveCommand = async (command: ChatCommand) => {
+    await window.electronAPI.setChatCommand(command);
+    setCommands((prev) => ({ ...prev, [command.id]: command }));
+  };
+
+  const openEditor = (command?: ChatCommand) => {
+    if (command) {
+      setEditingId(command.id);
+      setForm({
+        command: command.command,
+        aliases: command.aliases.join(', '),
+        argPattern: command.argPattern,
+        cooldownSeconds: String(command.cooldownSeconds),
+        userCooldownSeconds: String(command.userCooldownSeconds),
+      });
+    } else {
+      setEditingId(null);
+      setForm(emptyForm);
+    }
+    setEditorOpen(true);
+  };
+
+  const handleSaveEditor = async () => {
+    const name = form.command.trim().toLowerCase();
+    if (!name) {
+      toast.error('Please enter a command');
+      return;
+    }
+
+    if (form.argPattern) {
+      try {
+        new RegExp(form.argPattern);
+      } catch {
+        toast.error('Invalid argument pattern');
+        return;
+      }
+    }
+
+    const existing = editingId ? commands[editingId] : undefined;
+    const command: ChatCommand = {
+      id: existing?.id || crypto.randomUUID(),
+      command: name,
+      aliases: form.aliases.split(',').map(a => a.trim().toLowerCase()).filter(Boolean),
+      argPattern: form.argPattern.trim(),
+      audioFiles: existing?.audioFiles || [],
+      enabled: existing?.enabled !== undefined ? existing.enabled : true,
+      cooldownSeconds: Math.max(0, Number(form.cooldownSeconds) || 0),
+      userCooldownSeconds: Math.max(0, Number(form.userCooldownSeconds) || 0),
+    };
+
+    try {
+      await saveCommand(command);
+      toast.success(existing ? `Updated ${command.command}` : `Created ${command.command}`);
+      setEditorOpen(false);
+    } catch (error) {
+      console.error('Failed to save chat command:', error);
+      toast.error('Failed to save command');
+    }
+  };
+
+  const handleRemove = async (command: ChatCommand) => {
+    await window.electronAPI.removeChatCommand(command.id);
+    setCommands((prev) => {
+      const copy = { ...prev };
+      delete copy[command.id];
+      return copy;
+    });
+    toast.info(`Removed ${command.command}`);
+  };
+
+  const openPlaylist = (commandId: string) => {
+    setPlaylistCommandId(commandId);
+    setAudioDialogOpen(true);
+  };
+
+  const handleAudiosSaved = async (paths: string[]) => {
+    const existing = playlistCommandId ? commands[playlistCommandId] : undefined;
+    if (!existing) return;
+
+    const audioFiles = paths.map(path => {
+      const entry = existing.audioFiles.find(e => e.path === path);
+      return entry || { path, volume: 1.0 };
+    });
+
+    await saveCommand({ ...existing, audioFiles });
+    toast.success(`Playlist updated for ${existing.command}`);
+  };
+
+  const handleRemoveAudioFile = async (command: ChatCommand, pathToRemove: string) => {
+    await saveCommand({ ...command, audioFiles: command.audioFiles.filter(e => e.path !== pathToRemove) });
+    toast.success('Audio removed from playlist');
+  };
+
+  const filteredCommands = Object.values(commands).filter((c) => {
+    const term = searchTerm.toLowerCase();
+    return c.command.includes(term) || c.aliases.some(a => a.includes(term));
+  });
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-1 pb-2">
+        <p className="text-xs text-muted-foreground">
+          Viewers type a command in chat to play a sound from its playlist.
+        </p>
+        <Button size="sm" className="h-7 text-xs gap-1" onClick={() => openEditor()}>
+          <Plus className="w-3 h-3" />
+          New Command
+        </Button>
+      </div>
+
+      <ScrollArea className="h-[calc(100vh-220px)]">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-1 pb-16">
+          {filteredCommands.length === 0 ? (
+            <div className="col-span-full flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <MessageSquare className="w-12 h-12 mb-4 opacity-50" />
+              <p className="text-lg">No chat commands configured yet</p>
+              <p className="text-sm">Create a command like !airhorn and give it a playlist</p>
+            </div>
+          ) : (
+            filteredCommands.map((command) => {
+              return (
+                <Card key={command.id} className={`gap-0 py-0 overflow-hidden border-l-4 ${command.audioFiles.length > 0 ? 'border-l-blue-500' : 'border-l-muted'}`}>
+                  <div className="flex items-center justify-between p-3 bg-muted/30">
+                    <div className="min-w-0">
+                      <h3 className="text-sm font-semibold truncate">{command.command}</h3>
+                      <p className="text-[10px] text-muted-foreground truncate">
+                        {command.aliases.length > 0 ? `Aliases: ${command.aliases.join(', ')}` : 'No aliases'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Switch
+                        checked={command.enabled}
+                        onCheckedChange={(checked) => saveCommand({ ...command, enabled: checked })}
+                      />
+                      <Badge variant={command.enabled ? 'default' : 'secondary'} className={command.enabled ? 'bg-green-600' : ''}>
+                        {command.enabled ? 'On' : 'Off'}
+                      </Badge>
+                    </div>
+                  </div>
+
+                  <CardContent className="p-3 space-y-3">
+                    <div className="flex flex-wrap gap-1.5 text-[10px]">
+                      <Badge variant="outline">⏱ {command.cooldownSeconds}s</Badge>
+                      <Badge variant="outline">👤 {command.userCooldownSeconds}s</Badge>
+                      {command.argPattern && (
+                        <Badge variant="outline" className="max-w-full truncate">args: /{command.argPattern}/</Badge>
+                      )}
+                    </div>
+
+                    <PlaylistChips
+                      audioFiles={command.audioFiles}
+                      audioFileNames={audioFileNames}
+                      onAdd={() => openPlaylist(command.id)}
+                      onRemove={(path) => handleRemoveAudioFile(command, path)}
+                    />
+                  </CardContent>
+
+                  <div className="flex justify-end gap-1 p-2 border-t border-border bg-muted/20">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 text-xs"
+                      onClick={() => openEditor(command)}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 text-xs text-destructive hover:text-destructive hover:bg-destructive/10"
+                      onClick={() => handleRemove(command)}
+                    >
+                      Remove Command
+                    </Button>
+                  </div>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </ScrollArea>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Chat Command' : 'New Chat Command'}</DialogTitle>
+            <DialogDescription>
+              Commands match the first word of a chat message, ignoring case.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="command-name" className="text-right">Command</Label>
+              <Input
+                id="command-name"
+                value={form.command}
+                onChange={(e) => setForm({ ...form, command: e.target.value })}
+                placeholder="!airhorn"
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="command-aliases" className="text-right">Aliases</Label>
+              <Input
+                id="command-aliases"
+                value={form.aliases}
+                onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                placeholder="!horn, !ah"
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="command-args" className="text-right">Arguments</Label>
+              <Input
+                id="command-args"
+                value={form.argPattern}
+                onChange={(e) => setForm({ ...form, argPattern: e.target.value })}
+                placeholder="Optional regex, e.g. ^(loud|soft)$"
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="command-cooldown" className="text-right">Cooldown (s)</Label>
+              <Input
+                id="command-cooldown"
+                type="number"
+                min={0}
+                value={form.cooldownSeconds}
+                onChange={(e) => setForm({ ...form, cooldownSeconds: e.target.value })}
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="command-user-cooldown" className="text-right">Per user (s)</Label>
+              <Input
+                id="command-user-cooldown"
+                type="number"
+                min={0}
+                value={form.userCooldownSeconds}
+                onChange={(e) => setForm({ ...form, userCooldownSeconds: e.target.value })}
+                className="col-span-3"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveEditor}>Save Changes</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AudioSelectionDialog
+        open={audioDialogOpen}
+        onOpenChange={setAudioDialogOpen}
+        onSave={handleAudiosSaved}
+        currentPaths={playlistCommandId ? (commands[playlistCommandId]?.audioFiles.map(e => e.path) || []) : []}
+        description="Select audio files to play when this command is used."
+      />
+    </div>
+  );
+}
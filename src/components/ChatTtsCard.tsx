@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { TtsVoiceFields, TtsVoiceSettings } from './TtsVoiceFields';
+
+type ChatTtsAudience = 'everyone' | 'followers' | 'gifters';
+
+interface ChatTtsSettings {
+  enabled: boolean;
+  audience: ChatTtsAudience;
+  template: string;
+  skipLinks: boolean;
+  skipCommands: boolean;
+  maxLength: number;
+  maxBacklog: number;
+  voice: TtsVoiceSettings;
+}
+
+const AUDIENCES: Array<{ audience: ChatTtsAudience; label: string; description: string }> = [
+  { audience: 'everyone', label: 'Everyone', description: 'Read every chat message' },
+  { audience: 'followers', label: 'Followers', description: 'Followers and gifters only' },
+  { audience: 'gifters', label: 'Gifters', description: 'Viewers who have sent a gift' },
+];
+
+const DEFAULT_TEMPLATE = '{nickname} says {message}';
+
+export function ChatTtsCard() {
+  const [settings, setSettings] = useState<ChatTtsSettings | null>(null);
+  const [template, setTemplate] = useState('');
+  const [maxLength, setMaxLength] = useState('');
+  const [maxBacklog, setMaxBacklog] = useState('');
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getChatTts();
+        setSettings(loaded);
+        setTemplate(loaded.template);
+        setMaxLength(String(loaded.maxLength));
+        setMaxBacklog(String(loaded.maxBacklog));
+      } catch (error) {
+        console.error('Failed to load chat TTS settings:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const save = async (updated: ChatTtsSettings) => {
+    await window.electronAPI.setChatTts(updated);
+    setSettings(updated);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    const updated: ChatTtsSettings = {
+      ...settings,
+      template: template.trim() || DEFAULT_TEMPLATE,
+      maxLength: Math.max(0, Math.round(Number(maxLength)) || 0),
+      maxBacklog: Math.max(1, Math.round(Number(maxBacklog)) || 5),
+    };
+    await save(updated);
+    setTemplate(updated.template);
+    setMaxLength(String(updated.maxLength));
+    setMaxBacklog(String(updated.maxBacklog));
+    toast.success('Chat reading saved');
+  };
+
+  if (!settings) return null;
+
+  const preview = template.replace(/\{nickname\}/g, 'Maria').replace(/\{message\}/g, 'hello everyone');
+
+  return (
+    <Card className={`gap-0 py-0 overflow-hidden border-l-4 ${settings.enabled ? 'border-l-blue-500' : 'border-l-muted'}`}>
+      <div className="flex items-center justify-between p-3 bg-muted/30">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xl">💬</span>
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold truncate">Read Chat Aloud</h3>
+            <p className="text-[10px] text-muted-foreground truncate">Speaks chat messages on the overlay between sounds</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(checked) => save({ ...settings, enabled: checked })}
+          />
+          <Badge variant={settings.enabled ? 'default' : 'secondary'} className={settings.enabled ? 'bg-green-600' : ''}>
+            {settings.enabled ? 'On' : 'Off'}
+          </Badge>
+        </div>
+      </div>
+
+      <CardContent className="p-3 space-y-3">
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-muted-foreground mr-1">Read:</span>
+          {AUDIENCES.map(({ audience, label, description }) => (
+            <Button
+              key={audience}
+              variant={settings.audience === audience ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              title={description}
+              onClick={() => save({ ...settings, audience })}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="chat-tts-links"
+              checked={settings.skipLinks}
+              onCheckedChange={(checked) => save({ ...settings, skipLinks: checked })}
+            />
+            <Label htmlFor="chat-tts-links" className="text-xs">Skip links</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="chat-tts-commands"
+              checked={settings.skipCommands}
+              onCheckedChange={(checked) => save({ ...settings, skipCommands: checked })}
+            />
+            <Label htmlFor="chat-tts-commands" className="text-xs">Skip !commands</Label>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="chat-tts-template" className="text-xs text-muted-foreground">
+            Message ({'{nickname}'}, {'{message}'})
+          </Label>
+          <Input id="chat-tts-template" value={template} onChange={(e) => setTemplate(e.target.value)} />
+        </div>
+
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="chat-tts-max-length" className="text-xs text-muted-foreground">Max characters (0 = any)</Label>
+            <Input id="chat-tts-max-length" type="number" min={0} value={maxLength} onChange={(e) => setMaxLength(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="chat-tts-backlog" className="text-xs text-muted-foreground">Max waiting</Label>
+            <Input id="chat-tts-backlog" type="number" min={1} value={maxBacklog} onChange={(e) => setMaxBacklog(e.target.value)} />
+          </div>
+          <Button variant="secondary" onClick={handleSave}>Save</Button>
+        </div>
+
+        <TtsVoiceFields value={settings.voice} onChange={(voice) => save({ ...settings, voice })} testText={preview} />
+      </CardContent>
+    </Card>
+  );
+}
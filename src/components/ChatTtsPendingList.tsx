@@ -0,0 +1,49 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { SkipForward } from 'lucide-react';
+
+interface ChatTtsItem {
+  id: string;
+  room: string;
+  nickname: string;
+  message: string;
+  queuedAt: number;
+}
+
+// Chat messages queued for reading, with a skip button for each
+export function ChatTtsPendingList() {
+  const [items, setItems] = useState<ChatTtsItem[]>([]);
+
+  useEffect(() => {
+    window.electronAPI.getChatTtsPending().then(setItems).catch(() => {});
+
+    const handlePending = (pending: ChatTtsItem[]) => setItems(pending);
+    window.electronAPI.on('chatTts:pending', handlePending);
+    return () => window.electronAPI.off('chatTts:pending', handlePending);
+  }, []);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">💬 Chat to read ({items.length})</p>
+      {items.map((item) => (
+        <div key={item.id} className="flex items-center gap-2 rounded bg-muted/30 px-2 py-1 text-xs">
+          <div className="flex-1 min-w-0">
+            <span className="font-medium">{item.nickname}</span>
+            <span className="text-muted-foreground">: {item.message}</span>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0 shrink-0"
+            title="Skip"
+            onClick={() => window.electronAPI.skipChatTts(item.id)}
+          >
+            <SkipForward className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
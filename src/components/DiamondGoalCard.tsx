@@ -0,0 +1,214 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+import { Copy } from 'lucide-react';
+import { AudioSelectionDialog } from './AudioSelectionDialog';
+import { PlaylistChips } from './PlaylistChips';
+
+interface AudioFileEntry {
+  path: string;
+  volume: number;
+}
+
+interface DiamondGoalSettings {
+  enabled: boolean;
+  title: string;
+  target: number;
+  audioFiles: AudioFileEntry[];
+  message: string;
+}
+
+interface DiamondGoalState {
+  enabled: boolean;
+  title: string;
+  target: number;
+  progress: number;
+}
+
+interface DiamondGoalCardProps {
+  audioFileNames: Record<string, string>;
+}
+
+export function DiamondGoalCard({ audioFileNames }: DiamondGoalCardProps) {
+  const [settings, setSettings] = useState<DiamondGoalSettings | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [title, setTitle] = useState('');
+  const [target, setTarget] = useState('');
+  const [message, setMessage] = useState('');
+  const [progressInput, setProgressInput] = useState('');
+  const [overlayUrl, setOverlayUrl] = useState('');
+  const [audioDialogOpen, setAudioDialogOpen] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getDiamondGoal();
+        setSettings(loaded);
+        setTitle(loaded.title);
+        setTarget(String(loaded.target));
+        setMessage(loaded.message);
+      } catch (error) {
+        console.error('Failed to load diamond goal:', error);
+      }
+    };
+
+    loadSettings();
+    window.electronAPI.getDiamondGoalState().then((state) => setProgress(state.progress)).catch(() => {});
+    window.electronAPI.getOverlayUrl().then(setOverlayUrl).catch(() => {});
+
+    const handleUpdated = (state: DiamondGoalState) => setProgress(state.progress);
+    window.electronAPI.on('goal:updated', handleUpdated);
+    return () => window.electronAPI.off('goal:updated', handleUpdated);
+  }, []);
+
+  const save = async (updated: DiamondGoalSettings) => {
+    await window.electronAPI.setDiamondGoal(updated);
+    setSettings(updated);
+  };
+
+  const handleSaveGoal = async () => {
+    if (!settings) return;
+
+    const parsedTarget = Math.round(Number(target.trim().replace(/k$/i, '000')));
+    if (!Number.isFinite(parsedTarget) || parsedTarget <= 0) {
+      toast.error('Goal must be a positive number of diamonds');
+      return;
+    }
+
+    await save({
+      ...settings,
+      title: title.trim() || 'Diamond Goal',
+      target: parsedTarget,
+      message: message.trim() || 'Goal reached! {target} 💎',
+    });
+    setTarget(String(parsedTarget));
+    toast.success('Diamond goal saved');
+  };
+
+  const handleSetProgress = async (value: number) => {
+    await window.electronAPI.setDiamondGoalProgress(value);
+    setProgressInput('');
+  };
+
+  const handleAudiosSaved = async (paths: string[]) => {
+    if (!settings) return;
+    const audioFiles = paths.map(path => {
+      const entry = settings.audioFiles.find(e => e.path === path);
+      return entry || { path, volume: 1.0 };
+    });
+    await save({ ...settings, audioFiles });
+    toast.success('Playlist updated');
+  };
+
+  const handleCopyUrl = async () => {
+    await navigator.clipboard.writeText(`${overlayUrl}/goal`);
+    toast.success('Goal bar URL copied!');
+  };
+
+  if (!settings) return null;
+
+  const percent = settings.target > 0 ? Math.min(100, (progress / settings.target) * 100) : 0;
+
+  return (
+    <Card className={`gap-0 py-0 overflow-hidden border-l-4 ${settings.enabled ? 'border-l-cyan-500' : 'border-l-muted'}`}>
+      <div className="flex items-center justify-between p-3 bg-muted/30">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xl">🎯</span>
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold truncate">Diamond Goal</h3>
+            <p className="text-[10px] text-muted-foreground truncate">Progress bar overlay that fills with every gift</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(checked) => save({ ...settings, enabled: checked })}
+          />
+          <Badge variant={settings.enabled ? 'default' : 'secondary'} className={settings.enabled ? 'bg-green-600' : ''}>
+            {settings.enabled ? 'On' : 'Off'}
+          </Badge>
+        </div>
+      </div>
+
+      <CardContent className="p-3 space-y-3">
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-muted-foreground">Progress</span>
+            <span className="font-medium">
+              {progress.toLocaleString('en-US')} / {settings.target.toLocaleString('en-US')} 💎
+            </span>
+          </div>
+          <Progress value={percent} className="h-2" />
+          <div className="flex items-center gap-1 pt-1">
+            <Input
+              type="number"
+              min={0}
+              value={progressInput}
+              onChange={(e) => setProgressInput(e.target.value)}
+              placeholder="Set progress"
+              className="h-7 text-xs"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={progressInput.trim() === ''}
+              onClick={() => handleSetProgress(Number(progressInput))}
+            >
+              Set
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => handleSetProgress(0)}>
+              Reset
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="goal-title" className="text-xs text-muted-foreground">Title</Label>
+            <Input id="goal-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="goal-target" className="text-xs text-muted-foreground">Goal (diamonds)</Label>
+            <Input id="goal-target" value={target} onChange={(e) => setTarget(e.target.value)} placeholder="5000" />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="goal-message" className="text-xs text-muted-foreground">Completion message ({'{target}'} = goal)</Label>
+          <div className="flex gap-2">
+            <Input id="goal-message" value={message} onChange={(e) => setMessage(e.target.value)} className="flex-1" />
+            <Button variant="secondary" onClick={handleSaveGoal}>Save</Button>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Input value={overlayUrl ? `${overlayUrl}/goal` : ''} readOnly className="h-7 text-xs" />
+          <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={handleCopyUrl} disabled={!overlayUrl} title="Copy goal bar URL">
+            <Copy className="w-3 h-3" />
+          </Button>
+        </div>
+
+        <PlaylistChips
+          audioFiles={settings.audioFiles}
+          audioFileNames={audioFileNames}
+          onAdd={() => setAudioDialogOpen(true)}
+          onRemove={(path) => save({ ...settings, audioFiles: settings.audioFiles.filter(e => e.path !== path) })}
+        />
+      </CardContent>
+
+      <AudioSelectionDialog
+        open={audioDialogOpen}
+        onOpenChange={setAudioDialogOpen}
+        onSave={handleAudiosSaved}
+        currentPaths={settings.audioFiles.map(e => e.path)}
+        description="Select audio files to play when the diamond goal is reached."
+      />
+    </Card>
+  );
+}
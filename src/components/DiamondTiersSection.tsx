@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Plus } from 'lucide-react';
+import { AudioSelectionDialog } from './AudioSelectionDialog';
+import { PlaylistChips } from './PlaylistChips';
+
+interface AudioFileEntry {
+  path: string;
+  volume: number;
+}
+
+interface DiamondTier {
+  id: string;
+  minDiamonds: number;
+  maxDiamonds: number;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+}
+
+interface DiamondTiersSectionProps {
+  audioFileNames: Record<string, string>;
+}
+
+function formatTierRange(tier: Pick<DiamondTier, 'minDiamonds' | 'maxDiamonds'>): string {
+  if (tier.maxDiamonds === 0) return `${tier.minDiamonds.toLocaleString('en-US')}+`;
+  return `${tier.minDiamonds.toLocaleString('en-US')}–${tier.maxDiamonds.toLocaleString('en-US')}`;
+}
+
+export function DiamondTiersSection({ audioFileNames }: DiamondTiersSectionProps) {
+  const [tiers, setTiers] = useState<Record<string, DiamondTier>>({});
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [minDiamonds, setMinDiamonds] = useState('1');
+  const [maxDiamonds, setMaxDiamonds] = useState('9');
+
+  const [audioDialogOpen, setAudioDialogOpen] = useState(false);
+  const [playlistTierId, setPlaylistTierId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTiers = async () => {
+      try {
+        const list = await window.electronAPI.getDiamondTiers();
+        setTiers(list || {});
+      } catch (error) {
+        console.error('Failed to load diamond tiers:', error);
+      }
+    };
+
+    loadTiers();
+  }, []);
+
+  const saveTier = async (tier: DiamondTier) => {
+    await window.electronAPI.setDiamondTier(tier);
+    setTiers((prev) => ({ ...prev, [tier.id]: tier }));
+  };
+
+  const openEditor = (tier?: DiamondTier) => {
+    setEditingId(tier?.id || null);
+    setMinDiamonds(String(tier?.minDiamonds ?? 1));
+    setMaxDiamonds(tier ? (tier.maxDiamonds === 0 ? '' : String(tier.maxDiamonds)) : '9');
+    setEditorOpen(true);
+  };
+
+  const handleSaveEditor = async () => {
+    const min = Math.max(1, Math.floor(Number(minDiamonds) || 0));
+    const max = maxDiamonds.trim() === '' ? 0 : Math.floor(Number(maxDiamonds) || 0);
+
+    if (max !== 0 && max < min) {
+      toast.error('Maximum must be greater than or equal to the minimum');
+      return;
+    }
+
+    const existing = editingId ? tiers[editingId] : undefined;
+    const tier: DiamondTier = {
+      id: existing?.id || crypto.randomUUID(),
+      minDiamonds: min,
+      maxDiamonds: max,
+      audioFiles: existing?.audioFiles || [],
+      enabled: existing?.enabled !== undefined ? existing.enabled : true,
+    };
+
+    await saveTier(tier);
+    toast.success(`Tier ${formatTierRange(tier)} saved`);
+    setEditorOpen(false);
+  };
+
+  const handleRemove = async (tier: DiamondTier) => {
+    await window.electronAPI.removeDiamondTier(tier.id);
+    setTiers((prev) => {
+      const copy = { ...prev };
+      delete copy[tier.id];
+      return copy;
+    });
+    toast.info(`Tier ${formatTierRange(tier)} removed`);
+  };
+
+  const handleAudiosSaved = async (paths: string[]) => {
+    const existing = playlistTierId ? tiers[playlistTierId] : undefined;
+    if (!existing) return;
+
+    const audioFiles = paths.map(path => {
+      const entry = existing.audioFiles.find(e => e.path === path);
+      return entry || { path, volume: 1.0 };
+    });
+
+    await saveTier({ ...existing, audioFiles });
+    toast.success(`Playlist updated for ${formatTierRange(existing)} 💎`);
+  };
+
+  const sortedTiers = Object.values(tiers).sort((a, b) => a.minDiamonds - b.minDiamonds);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <p className="text-xs text-muted-foreground">
+          💎 Tier rules play for gifts without their own mapping, based on the gift's diamond value.
+        </p>
+        <Button size="sm" variant="outline" className="h-7 text-xs gap-1" onClick={() => openEditor()}>
+          <Plus className="w-3 h-3" />
+          Add Tier
+        </Button>
+      </div>
+
+      {sortedTiers.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-1">
+          {sortedTiers.map((tier) => (
+            <Card key={tier.id} className={`gap-0 py-0 overflow-hidden border-l-4 ${tier.audioFiles.length > 0 ? 'border-l-cyan-500' : 'border-l-muted'}`}>
+              <div className="flex items-center justify-between p-3 bg-muted/30">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-xl">💎</span>
+                  <div className="min-w-0">
+                    <h3 className="text-sm font-semibold truncate">{formatTierRange(tier)} diamonds</h3>
+                    <p className="text-[10px] text-muted-foreground">Tier rule</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={tier.enabled}
+                    onCheckedChange={(checked) => saveTier({ ...tier, enabled: checked })}
+                  />
+                  <Badge variant={tier.enabled ? 'default' : 'secondary'} className={tier.enabled ? 'bg-green-600' : ''}>
+                    {tier.enabled ? 'On' : 'Off'}
+                  </Badge>
+                </div>
+              </div>
+
+              <CardContent className="p-3">
+                <PlaylistChips
+                  audioFiles={tier.audioFiles}
+                  audioFileNames={audioFileNames}
+                  onAdd={() => {
+                    setPlaylistTierId(tier.id);
+                    setAudioDialogOpen(true);
+                  }}
+                  onRemove={(path) => saveTier({ ...tier, audioFiles: tier.audioFiles.filter(e => e.path !== path) })}
+                />
+              </CardContent>
+
+              <div className="flex justify-end gap-1 p-2 border-t border-border bg-muted/20">
+                <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => openEditor(tier)}>
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 text-xs text-destructive hover:text-destructive hover:bg-destructive/10"
+                  onClick={() => handleRemove(tier)}
+                >
+                  Remove Tier
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Tier Rule' : 'New Tier Rule'}</DialogTitle>
+            <DialogDescription>
+              Matches gifts worth between the two values (per gift). Leave the maximum empty for no upper limit.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="tier-min" className="text-right">From</Label>
+              <Input id="tier-min" type="number" min={1} value={minDiamonds} onChange={(e) => setMinDiamonds(e.target.value)} className="col-span-3" />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="tier-max" className="text-right">To</Label>
+              <Input id="tier-max" type="number" min={1} value={maxDiamonds} onChange={(e) => setMaxDiamonds(e.target.value)} placeholder="No limit" className="col-span-3" />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveEditor}>Save Changes</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AudioSelectionDialog
+        open={audioDialogOpen}
+        onOpenChange={setAudioDialogOpen}
+        onSave={handleAudiosSaved}
+        currentPaths={playlistTierId ? (tiers[playlistTierId]?.audioFiles.map(e => e.path) || []) : []}
+        description="Select audio files to play for gifts in this diamond range."
+      />
+    </div>
+  );
+}
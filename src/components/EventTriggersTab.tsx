@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { AudioSelectionDialog } from './AudioSelectionDialog';
+import { PlaylistChips } from './PlaylistChips';
+import { LikeMilestonesCard } from './LikeMilestonesCard';
+import { ViewerMilestonesCard } from './ViewerMilestonesCard';
+import { DiamondGoalCard } from './DiamondGoalCard';
+import { GiftTtsCard } from './GiftTtsCard';
+import { ChatTtsCard } from './ChatTtsCard';
+
+interface AudioFileEntry {
+  path: string;
+  volume: number;
+}
+
+type EventTriggerType = 'follow' | 'share' | 'like' | 'subscribe'
+  | 'battleStart' | 'battleScore' | 'battleWin' | 'battleLose' | 'battleDraw' | 'battleLeadTaken' | 'battleLeadLost';
+
+interface EventAudioMapping {
+  eventType: EventTriggerType;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+  showBanner?: boolean;
+  bannerMessage?: string;
+}
+
+interface EventTriggersTabProps {
+  audioFileNames: Record<string, string>;
+}
+
+const EVENT_TRIGGERS: Array<{ type: EventTriggerType; icon: string; label: string; description: string; defaultMessage: string }> = [
+  { type: 'follow', icon: '➕', label: 'Follow', description: 'A viewer follows the streamer', defaultMessage: 'Thanks for the follow, {nickname}!' },
+  { type: 'share', icon: '🔁', label: 'Share', description: 'A viewer shares the live', defaultMessage: '{nickname} shared the live!' },
+  { type: 'like', icon: '❤️', label: 'Like', description: 'A batch of likes arrives from a viewer', defaultMessage: '{nickname} is sending likes!' },
+  { type: 'subscribe', icon: '⭐', label: 'Subscribe', description: 'A viewer subscribes or becomes a super fan', defaultMessage: '{nickname} subscribed!' },
+  { type: 'battleStart', icon: '⚔️', label: 'Battle Start', description: 'A battle begins', defaultMessage: 'Battle against {opponent}!' },
+  { type: 'battleScore', icon: '📊', label: 'Battle Score', description: 'Fires on every score change — keep it short', defaultMessage: '{score} x {opponentScore}' },
+  { type: 'battleLeadTaken', icon: '🚀', label: 'Took the Lead', description: 'We go ahead of the opponent', defaultMessage: 'We took the lead! {score} x {opponentScore}' },
+  { type: 'battleLeadLost', icon: '😱', label: 'Lost the Lead', description: 'The opponent overtakes us', defaultMessage: '{opponent} took the lead! {score} x {opponentScore}' },
+  { type: 'battleWin', icon: '🏆', label: 'Battle Won', description: 'The battle ends with us ahead', defaultMessage: 'We won! {score} x {opponentScore}' },
+  { type: 'battleLose', icon: '💔', label: 'Battle Lost', description: 'The battle ends with the opponent ahead', defaultMessage: 'We lost {score} x {opponentScore}' },
+  { type: 'battleDraw', icon: '🤝', label: 'Battle Draw', description: 'The battle ends tied', defaultMessage: 'Draw! {score} x {opponentScore}' },
+];
+
+const DEFAULT_MESSAGES = Object.fromEntries(EVENT_TRIGGERS.map(t => [t.type, t.defaultMessage])) as Record<EventTriggerType, string>;
+
+export default function EventTriggersTab({ audioFileNames }: EventTriggersTabProps) {
+  const [mappings, setMappings] = useState<Partial<Record<EventTriggerType, EventAudioMapping>>>({});
+  const [audioDialogOpen, setAudioDialogOpen] = useState(false);
+  const [selectedType, setSelectedType] = useState<EventTriggerType | null>(null);
+  // Banner text being edited, saved on blur
+  const [drafts, setDrafts] = useState<Partial<Record<EventTriggerType, string>>>({});
+
+  useEffect(() => {
+    const loadMappings = async () => {
+      try {
+        const list = await window.electronAPI.getEventMappings();
+        setMappings(list || {});
+      } catch (error) {
+        console.error('Failed to load event mappings:', error);
+        toast.error('Failed to load event triggers');
+      }
+    };
+
+    loadMappings();
+  }, []);
+
+  const getMapping = (eventType: EventTriggerType): EventAudioMapping => {
+    const mapping = mappings[eventType] || { eventType, audioFiles: [], enabled: true };
+    return { ...mapping, bannerMessage: mapping.bannerMessage || DEFAULT_MESSAGES[eventType] };
+  };
+
+  const saveMapping = async (mapping: EventAudioMapping) => {
+    await window.electronAPI.setEventMapping(mapping);
+    setMappings((prev) => ({ ...prev, [mapping.eventType]: mapping }));
+  };
+
+  const openPlaylist = (eventType: EventTriggerType) => {
+    setSelectedType(eventType);
+    setAudioDialogOpen(true);
+  };
+
+  const handleAudiosSaved = async (paths: string[]) => {
+    if (!selectedType) return;
+    const existing = getMapping(selectedType);
+
+    const audioFiles = paths.map(path => {
+      const entry = existing.audioFiles.find(e => e.path === path);
+      return entry || { path, volume: 1.0 };
+    });
+
+    await saveMapping({ ...existing, audioFiles });
+    toast.success('Playlist updated');
+  };
+
+  const handleBannerBlur = async (eventType: EventTriggerType) => {
+    const draft = drafts[eventType];
+    if (draft === undefined) return;
+
+    const existing = getMapping(eventType);
+    const bannerMessage = draft.trim() || DEFAULT_MESSAGES[eventType];
+    if (bannerMessage !== existing.bannerMessage) {
+      await saveMapping({ ...existing, bannerMessage });
+    }
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[eventType];
+      return next;
+    });
+  };
+
+  const handleRemoveAudioFile = async (eventType: EventTriggerType, pathToRemove: string) => {
+    const existing = getMapping(eventType);
+    await saveMapping({ ...existing, audioFiles: existing.audioFiles.filter(e => e.path !== pathToRemove) });
+    toast.success('Audio removed from playlist');
+  };
+
+  return (
+    <ScrollArea className="h-[calc(100vh-180px)]">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-1 pb-16">
+        {EVENT_TRIGGERS.map(({ type, icon, label, description }) => {
+          const mapping = getMapping(type);
+          const hasAudio = mapping.audioFiles.length > 0 || !!mapping.showBanner;
+
+          return (
+            <Card key={type} className={`gap-0 py-0 overflow-hidden border-l-4 ${hasAudio ? 'border-l-pink-500' : 'border-l-muted'}`}>
+              <div className="flex items-center justify-between p-3 bg-muted/30">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-xl">{icon}</span>
+                  <div className="min-w-0">
+                    <h3 className="text-sm font-semibold truncate">{label}</h3>
+                    <p className="text-[10px] text-muted-foreground truncate">{description}</p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={mapping.enabled}
+                    onCheckedChange={(checked) => saveMapping({ ...mapping, enabled: checked })}
+                  />
+                  <Badge variant={mapping.enabled ? 'default' : 'secondary'} className={mapping.enabled ? 'bg-green-600' : ''}>
+                    {mapping.enabled ? 'On' : 'Off'}
+                  </Badge>
+                </div>
+              </div>
+
+              <CardContent className="p-3 space-y-2">
+                <PlaylistChips
+                  audioFiles={mapping.audioFiles}
+                  audioFileNames={audioFileNames}
+                  onAdd={() => openPlaylist(type)}
+                  onRemove={(path) => handleRemoveAudioFile(type, path)}
+                />
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={!!mapping.showBanner}
+                    onCheckedChange={(checked) => saveMapping({ ...mapping, showBanner: checked })}
+                    title="Show a banner on the overlay"
+                  />
+                  <Input
+                    value={drafts[type] ?? mapping.bannerMessage}
+                    onChange={(e) => setDrafts((prev) => ({ ...prev, [type]: e.target.value }))}
+                    onBlur={() => handleBannerBlur(type)}
+                    disabled={!mapping.showBanner}
+                    className="h-7 text-xs"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+
+        <LikeMilestonesCard audioFileNames={audioFileNames} />
+        <ViewerMilestonesCard audioFileNames={audioFileNames} />
+        <DiamondGoalCard audioFileNames={audioFileNames} />
+        <GiftTtsCard />
+        <ChatTtsCard />
+      </div>
+
+      <AudioSelectionDialog
+        open={audioDialogOpen}
+        onOpenChange={setAudioDialogOpen}
+        onSave={handleAudiosSaved}
+        currentPaths={selectedType ? getMapping(selectedType).audioFiles.map(e => e.path) : []}
+        description="Select audio files to play when this event happens."
+      />
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+interface GiftCooldownSettings {
+  userMaxPlaysPerMinute: number;
+}
+
+export function GiftCooldownCard() {
+  const [settings, setSettings] = useState<GiftCooldownSettings | null>(null);
+  const [maxPlays, setMaxPlays] = useState('');
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getGiftCooldownSettings();
+        setSettings(loaded);
+        setMaxPlays(String(loaded.userMaxPlaysPerMinute));
+      } catch (error) {
+        console.error('Failed to load cooldown settings:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    const updated: GiftCooldownSettings = { ...settings, userMaxPlaysPerMinute: Math.min(600, Math.max(0, Math.round(Number(maxPlays)) || 0)) };
+    await window.electronAPI.setGiftCooldownSettings(updated);
+    setSettings(updated);
+    setMaxPlays(String(updated.userMaxPlaysPerMinute));
+    toast.success(updated.userMaxPlaysPerMinute > 0 ? 'User limit saved' : 'User limit removed');
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <span>⏳</span> Cooldowns
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Label htmlFor="cooldown-user-max" className="text-xs text-muted-foreground">Gift sounds per user per minute (0 = unlimited)</Label>
+          <div className="flex gap-2">
+            <Input id="cooldown-user-max" type="number" min={0} max={600} value={maxPlays} onChange={(e) => setMaxPlays(e.target.value)} />
+            <Button variant="secondary" onClick={handleSave}>Save</Button>
+          </div>
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          Per-gift cooldowns are set on each configured gift. Held-back sounds show up in the Event Log.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+interface DedupSettings {
+  windowSeconds: number;
+}
+
+interface DedupStats {
+  suppressed: number;
+  lastSuppressedAt: number;
+  lastRoom: string;
+}
+
+export function GiftDedupCard() {
+  const [settings, setSettings] = useState<DedupSettings | null>(null);
+  const [windowSeconds, setWindowSeconds] = useState('');
+  const [stats, setStats] = useState<DedupStats>({ suppressed: 0, lastSuppressedAt: 0, lastRoom: '' });
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getDedupSettings();
+        setSettings(loaded);
+        setWindowSeconds(String(loaded.windowSeconds));
+      } catch (error) {
+        console.error('Failed to load dedup settings:', error);
+      }
+    };
+
+    loadSettings();
+    window.electronAPI.getDedupStats().then(setStats).catch(() => {});
+
+    const handleStats = (updated: DedupStats) => setStats(updated);
+    window.electronAPI.on('tiktok:dedupStats', handleStats);
+    return () => window.electronAPI.off('tiktok:dedupStats', handleStats);
+  }, []);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    const updated: DedupSettings = { ...settings, windowSeconds: Math.min(600, Math.max(1, Math.round(Number(windowSeconds)) || 30)) };
+    await window.electronAPI.setDedupSettings(updated);
+    setSettings(updated);
+    setWindowSeconds(String(updated.windowSeconds));
+    toast.success('Duplicate window saved');
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <span>🧹</span> Duplicate Gifts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between p-2 rounded-md bg-muted/30">
+          <div className="min-w-0">
+            <p className="text-sm font-medium">{stats.suppressed} suppressed</p>
+            <p className="text-[10px] text-muted-foreground truncate">
+              {stats.lastSuppressedAt
+                ? `Last at ${new Date(stats.lastSuppressedAt).toLocaleTimeString('en-US', { hour12: false })} on @${stats.lastRoom}`
+                : 'No duplicates seen yet'}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs shrink-0"
+            disabled={stats.suppressed === 0}
+            onClick={() => window.electronAPI.resetDedupStats()}
+          >
+            Reset
+          </Button>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="dedup-window" className="text-xs text-muted-foreground">Remember gift messages for (s)</Label>
+          <div className="flex gap-2">
+            <Input id="dedup-window" type="number" min={1} max={600} value={windowSeconds} onChange={(e) => setWindowSeconds(e.target.value)} />
+            <Button variant="secondary" onClick={handleSave}>Save</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { TtsVoiceFields, TtsVoiceSettings } from './TtsVoiceFields';
+
+type GiftTtsMode = 'after' | 'instead';
+
+interface GiftTtsSettings {
+  enabled: boolean;
+  mode: GiftTtsMode;
+  template: string;
+  minDiamonds: number;
+  voice: TtsVoiceSettings;
+}
+
+const DEFAULT_TEMPLATE = '{nickname} sent {giftCount} {giftName}, thank you!';
+
+export function GiftTtsCard() {
+  const [settings, setSettings] = useState<GiftTtsSettings | null>(null);
+  const [template, setTemplate] = useState('');
+  const [minDiamonds, setMinDiamonds] = useState('');
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getGiftTts();
+        setSettings(loaded);
+        setTemplate(loaded.template);
+        setMinDiamonds(String(loaded.minDiamonds));
+      } catch (error) {
+        console.error('Failed to load gift TTS settings:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const save = async (updated: GiftTtsSettings) => {
+    await window.electronAPI.setGiftTts(updated);
+    setSettings(updated);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!settings) return;
+
+    await save({
+      ...settings,
+      template: template.trim() || DEFAULT_TEMPLATE,
+      minDiamonds: Math.max(0, Math.round(Number(minDiamonds)) || 0),
+    });
+    setTemplate(template.trim() || DEFAULT_TEMPLATE);
+    toast.success('Announcement saved');
+  };
+
+  if (!settings) return null;
+
+  const preview = template
+    .replace(/\{nickname\}/g, 'Maria')
+    .replace(/\{giftName\}/g, 'Roses')
+    .replace(/\{giftCount\}/g, '5');
+
+  return (
+    <Card className={`gap-0 py-0 overflow-hidden border-l-4 ${settings.enabled ? 'border-l-sky-500' : 'border-l-muted'}`}>
+      <div className="flex items-center justify-between p-3 bg-muted/30">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xl">🗣️</span>
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold truncate">Gift Announcements</h3>
+            <p className="text-[10px] text-muted-foreground truncate">Reads gifts aloud on the overlay, in turn with the sounds</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(checked) => save({ ...settings, enabled: checked })}
+          />
+          <Badge variant={settings.enabled ? 'default' : 'secondary'} className={settings.enabled ? 'bg-green-600' : ''}>
+            {settings.enabled ? 'On' : 'Off'}
+          </Badge>
+        </div>
+      </div>
+
+      <CardContent className="p-3 space-y-3">
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-muted-foreground mr-1">Speak:</span>
+          {([['after', 'After the sound'], ['instead', 'Instead of the sound']] as const).map(([mode, label]) => (
+            <Button
+              key={mode}
+              variant={settings.mode === mode ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => save({ ...settings, mode })}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-[1fr_auto] gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="tts-template" className="text-xs text-muted-foreground">
+              Message ({'{nickname}'}, {'{giftName}'}, {'{giftCount}'})
+            </Label>
+            <Input id="tts-template" value={template} onChange={(e) => setTemplate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="tts-min-diamonds" className="text-xs text-muted-foreground">Min 💎</Label>
+            <div className="flex gap-2">
+              <Input id="tts-min-diamonds" type="number" min={0} value={minDiamonds} onChange={(e) => setMinDiamonds(e.target.value)} className="w-20" />
+              <Button variant="secondary" onClick={handleSaveTemplate}>Save</Button>
+            </div>
+          </div>
+        </div>
+
+        <TtsVoiceFields value={settings.voice} onChange={(voice) => save({ ...settings, voice })} testText={preview} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Copy, RotateCcw, Trophy } from 'lucide-react';
+
+interface LeaderboardEntry {
+  userId: string;
+  username: string;
+  nickname: string;
+  diamonds: number;
+  gifts: number;
+  lastGiftAt: number;
+}
+
+type LeaderboardScope = 'session' | 'allTime';
+
+interface LeaderboardSettings {
+  trackAllTime: boolean;
+  overlayScope: LeaderboardScope;
+  overlayLimit: number;
+  overlayTitle: string;
+}
+
+interface LeaderboardTabProps {
+  overlayUrl: string;
+  searchTerm: string;
+}
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+const selectClassName = 'h-8 rounded-md border border-input bg-background px-2 text-xs text-foreground';
+
+export default function LeaderboardTab({ overlayUrl, searchTerm }: LeaderboardTabProps) {
+  const [scope, setScope] = useState<LeaderboardScope>('session');
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [settings, setSettings] = useState<LeaderboardSettings | null>(null);
+  const [limit, setLimit] = useState('');
+  const [title, setTitle] = useState('');
+  const [resetOpen, setResetOpen] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getLeaderboardSettings();
+        setSettings(loaded);
+        setLimit(String(loaded.overlayLimit));
+        setTitle(loaded.overlayTitle);
+      } catch (error) {
+        console.error('Failed to load leaderboard settings:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        setEntries(await window.electronAPI.getLeaderboard(scope));
+      } catch (error) {
+        console.error('Failed to load leaderboard:', error);
+      }
+    };
+
+    loadEntries();
+
+    const handleUpdated = () => loadEntries();
+    window.electronAPI.on('leaderboard:updated', handleUpdated);
+    return () => window.electronAPI.off('leaderboard:updated', handleUpdated);
+  }, [scope]);
+
+  const save = async (updated: LeaderboardSettings) => {
+    await window.electronAPI.setLeaderboardSettings(updated);
+    setSettings(updated);
+  };
+
+  const handleSaveOverlay = async () => {
+    if (!settings) return;
+
+    const parsedLimit = Math.min(50, Math.max(1, Math.round(Number(limit)) || 5));
+    await save({ ...settings, overlayLimit: parsedLimit, overlayTitle: title.trim() || 'Top Gifters' });
+    setLimit(String(parsedLimit));
+    toast.success('Leaderboard overlay saved');
+  };
+
+  const confirmReset = async () => {
+    await window.electronAPI.resetLeaderboard(scope);
+    setResetOpen(false);
+    toast.info(scope === 'session' ? 'Session leaderboard reset' : 'All-time leaderboard reset');
+  };
+
+  const handleCopyUrl = async () => {
+    await navigator.clipboard.writeText(`${overlayUrl}/leaderboard`);
+    toast.success('Leaderboard URL copied!');
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredEntries = entries
+    .map((entry, index) => ({ entry, rank: index + 1 }))
+    .filter(({ entry }) => !term || entry.nickname.toLowerCase().includes(term) || entry.username.toLowerCase().includes(term));
+
+  return (
+    <div className="flex gap-4 h-[calc(100vh-180px)]">
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="flex items-center gap-1 pb-2">
+          <Button variant={scope === 'session' ? 'secondary' : 'ghost'} size="sm" className="h-7 text-xs" onClick={() => setScope('session')}>
+            This Live
+          </Button>
+          <Button variant={scope === 'allTime' ? 'secondary' : 'ghost'} size="sm" className="h-7 text-xs" onClick={() => setScope('allTime')}>
+            All Time
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs gap-1 ml-auto text-destructive hover:text-destructive hover:bg-destructive/10"
+            disabled={entries.length === 0}
+            onClick={() => setResetOpen(true)}
+          >
+            <RotateCcw className="w-3 h-3" />
+            Reset
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="space-y-1 p-1 pb-16">
+            {filteredEntries.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-muted-foreground text-center">
+                <Trophy className="w-12 h-12 mb-4 opacity-50" />
+                <p className="text-sm">No gifts yet</p>
+                {scope === 'allTime' && settings && !settings.trackAllTime && (
+                  <p className="text-xs mt-1">All-time tracking is off</p>
+                )}
+              </div>
+            ) : (
+              filteredEntries.map(({ entry, rank }) => (
+                <Card key={entry.userId} className="flex-row items-center gap-3 px-3 py-2">
+                  <span className="w-8 text-center text-lg font-bold shrink-0">{MEDALS[rank - 1] || rank}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold truncate">{entry.nickname}</p>
+                    <p className="text-[10px] text-muted-foreground truncate">@{entry.username} · {entry.gifts} gifts</p>
+                  </div>
+                  <span className="text-sm font-bold text-cyan-400 shrink-0">{entry.diamonds.toLocaleString('en-US')} 💎</span>
+                </Card>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+
+      {settings && (
+        <Card className="w-72 shrink-0 self-start gap-0 py-0">
+          <CardContent className="p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold">Track all-time</p>
+                <p className="text-[10px] text-muted-foreground">Keep totals across lives</p>
+              </div>
+              <Switch checked={settings.trackAllTime} onCheckedChange={(checked) => save({ ...settings, trackAllTime: checked })} />
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Overlay shows</Label>
+              <select
+                value={settings.overlayScope}
+                onChange={(e) => save({ ...settings, overlayScope: e.target.value as LeaderboardScope })}
+                className={`${selectClassName} w-full`}
+              >
+                <option value="session">This live</option>
+                <option value="allTime">All time</option>
+              </select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="leaderboard-limit" className="text-xs text-muted-foreground">Top</Label>
+                <Input id="leaderboard-limit" type="number" min={1} max={50} value={limit} onChange={(e) => setLimit(e.target.value)} className="h-8 text-xs" />
+              </div>
+              <div className="col-span-2 space-y-1">
+                <Label htmlFor="leaderboard-title" className="text-xs text-muted-foreground">Title</Label>
+                <Input id="leaderboard-title" value={title} onChange={(e) => setTitle(e.target.value)} className="h-8 text-xs" />
+              </div>
+            </div>
+
+            <Button size="sm" className="w-full h-8 text-xs" onClick={handleSaveOverlay}>Save Overlay</Button>
+
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">OBS browser source</Label>
+              <div className="flex items-center gap-1">
+                <Input value={overlayUrl ? `${overlayUrl}/leaderboard` : ''} readOnly className="h-8 text-xs" />
+                <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={handleCopyUrl} disabled={!overlayUrl} title="Copy URL">
+                  <Copy className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={resetOpen} onOpenChange={setResetOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset Leaderboard</AlertDialogTitle>
+            <AlertDialogDescription>
+              {scope === 'session'
+                ? 'Clear the totals of the current live? The overlay updates immediately.'
+                : 'Clear every all-time total? This action cannot be undone.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmReset} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Reset
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
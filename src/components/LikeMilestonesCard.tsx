@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { AudioSelectionDialog } from './AudioSelectionDialog';
+import { PlaylistChips } from './PlaylistChips';
+
+interface AudioFileEntry {
+  path: string;
+  volume: number;
+}
+
+interface LikeMilestoneSettings {
+  enabled: boolean;
+  everyN: number;
+  totals: number[];
+  audioFiles: AudioFileEntry[];
+  message: string;
+}
+
+interface LikeMilestonesCardProps {
+  audioFileNames: Record<string, string>;
+}
+
+export function LikeMilestonesCard({ audioFileNames }: LikeMilestonesCardProps) {
+  const [settings, setSettings] = useState<LikeMilestoneSettings | null>(null);
+  const [everyN, setEveryN] = useState('');
+  const [totals, setTotals] = useState('');
+  const [message, setMessage] = useState('');
+  const [audioDialogOpen, setAudioDialogOpen] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getLikeMilestones();
+        setSettings(loaded);
+        setEveryN(String(loaded.everyN));
+        setTotals(loaded.totals.join(', '));
+        setMessage(loaded.message);
+      } catch (error) {
+        console.error('Failed to load like milestones:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const save = async (updated: LikeMilestoneSettings) => {
+    await window.electronAPI.setLikeMilestones(updated);
+    setSettings(updated);
+  };
+
+  const handleSaveRules = async () => {
+    if (!settings) return;
+
+    const parsedTotals = totals
+      .split(',')
+      .map(t => Number(t.trim().replace(/k$/i, '000')))
+      .filter(t => Number.isFinite(t) && t > 0)
+      .sort((a, b) => a - b);
+
+    await save({
+      ...settings,
+      everyN: Math.max(0, Math.floor(Number(everyN) || 0)),
+      totals: parsedTotals,
+      message: message.trim() || '{total} likes!',
+    });
+    setTotals(parsedTotals.join(', '));
+    toast.success('Like milestones saved');
+  };
+
+  const handleAudiosSaved = async (paths: string[]) => {
+    if (!settings) return;
+    const audioFiles = paths.map(path => {
+      const entry = settings.audioFiles.find(e => e.path === path);
+      return entry || { path, volume: 1.0 };
+    });
+    await save({ ...settings, audioFiles });
+    toast.success('Playlist updated');
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card className={`gap-0 py-0 overflow-hidden border-l-4 ${settings.enabled ? 'border-l-pink-500' : 'border-l-muted'}`}>
+      <div className="flex items-center justify-between p-3 bg-muted/30">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xl">🏆</span>
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold truncate">Like Milestones</h3>
+            <p className="text-[10px] text-muted-foreground truncate">Celebrate like totals reached during the live</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(checked) => save({ ...settings, enabled: checked })}
+          />
+          <Badge variant={settings.enabled ? 'default' : 'secondary'} className={settings.enabled ? 'bg-green-600' : ''}>
+            {settings.enabled ? 'On' : 'Off'}
+          </Badge>
+        </div>
+      </div>
+
+      <CardContent className="p-3 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="likes-every" className="text-xs text-muted-foreground">Every N likes (0 = off)</Label>
+            <Input id="likes-every" type="number" min={0} value={everyN} onChange={(e) => setEveryN(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="likes-totals" className="text-xs text-muted-foreground">Specific totals</Label>
+            <Input id="likes-totals" value={totals} onChange={(e) => setTotals(e.target.value)} placeholder="1k, 10k, 50000" />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="likes-message" className="text-xs text-muted-foreground">Overlay message ({'{total}'} = milestone)</Label>
+          <div className="flex gap-2">
+            <Input id="likes-message" value={message} onChange={(e) => setMessage(e.target.value)} className="flex-1" />
+            <Button variant="secondary" onClick={handleSaveRules}>Save</Button>
+          </div>
+        </div>
+
+        <PlaylistChips
+          audioFiles={settings.audioFiles}
+          audioFileNames={audioFileNames}
+          onAdd={() => setAudioDialogOpen(true)}
+          onRemove={(path) => save({ ...settings, audioFiles: settings.audioFiles.filter(e => e.path !== path) })}
+        />
+      </CardContent>
+
+      <AudioSelectionDialog
+        open={audioDialogOpen}
+        onOpenChange={setAudioDialogOpen}
+        onSave={handleAudiosSaved}
+        currentPaths={settings.audioFiles.map(e => e.path)}
+        description="Select audio files to play when a like milestone is reached."
+      />
+    </Card>
+  );
+}
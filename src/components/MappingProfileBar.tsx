@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface MappingProfile {
+  id: string;
+  name: string;
+}
+
+interface MappingProfileBarProps {
+  profiles: Record<string, MappingProfile>;
+  // '' is the default mapping set
+  activeProfileId: string;
+  onSelect: (profileId: string) => void;
+  onCreate: (name: string) => void;
+  onRemove: (profileId: string) => void;
+}
+
+export function MappingProfileBar({ profiles, activeProfileId, onSelect, onCreate, onRemove }: MappingProfileBarProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleCreate = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onCreate(trimmed);
+    setName('');
+    setDialogOpen(false);
+  };
+
+  const options = [{ id: '', name: 'Default' }, ...Object.values(profiles)];
+
+  return (
+    <div className="flex items-center gap-1 flex-wrap mb-3">
+      <span className="text-xs text-muted-foreground mr-1">Profile:</span>
+      {options.map((profile) => (
+        <Button
+          key={profile.id || 'default'}
+          variant={activeProfileId === profile.id ? 'default' : 'outline'}
+          size="sm"
+          className="h-6 text-xs"
+          onClick={() => onSelect(profile.id)}
+        >
+          {profile.name}
+        </Button>
+      ))}
+      <Button variant="ghost" size="sm" className="h-6 text-xs gap-1" onClick={() => setDialogOpen(true)}>
+        <Plus className="w-3 h-3" />
+        New
+      </Button>
+      {activeProfileId && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 text-xs text-destructive hover:text-destructive hover:bg-destructive/10"
+          onClick={() => onRemove(activeProfileId)}
+          title="Delete this profile"
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Mapping Profile</DialogTitle>
+            <DialogDescription>
+              A profile holds its own gift sounds. Assign it to a room; gifts it doesn't cover use the default mappings.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-4 items-center gap-4 py-4">
+            <Label htmlFor="profile-name" className="text-right">Name</Label>
+            <Input
+              id="profile-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="Co-host"
+              className="col-span-3"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate}>Create</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+interface AudioFileEntry {
+  path: string;
+  volume: number;
+}
+
+interface PlaylistChipsProps {
+  audioFiles: AudioFileEntry[];
+  audioFileNames: Record<string, string>;
+  onAdd: () => void;
+  onRemove: (path: string) => void;
+}
+
+export function PlaylistChips({ audioFiles, audioFileNames, onAdd, onRemove }: PlaylistChipsProps) {
+  const audioCount = audioFiles.length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+          🎵 Playlist
+          <Badge variant="outline" className="ml-1 h-5 text-[10px]">{audioCount}</Badge>
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs gap-1"
+          onClick={onAdd}
+        >
+          + Add
+        </Button>
+      </div>
+
+      {audioCount === 0 ? (
+        <div
+          className="flex items-center justify-center p-4 border-2 border-dashed border-border rounded-md cursor-pointer hover:bg-muted/50 transition-colors"
+          onClick={onAdd}
+        >
+          <p className="text-xs text-muted-foreground">Click to add audio files</p>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-1.5">
+          {audioFiles.slice(0, 6).map((entry, idx) => {
+            const filename = entry.path.split(/[/\\]/).pop() || '';
+            const id = filename.replace(/\.[^/.]+$/, "");
+            const friendlyName = audioFileNames[id] || filename;
+
+            return (
+              <div
+                key={idx}
+                className="group flex items-center gap-1 bg-muted px-2 py-1 rounded-full text-xs max-w-[130px]"
+                title={friendlyName}
+              >
+                <span className="truncate">{friendlyName}</span>
+                <button
+                  className="text-muted-foreground hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                  onClick={() => onRemove(entry.path)}
+                >
+                  ×
+                </button>
+              </div>
+            );
+          })}
+          {audioCount > 6 && (
+            <Badge variant="secondary" className="text-[10px]">+{audioCount - 6} more</Badge>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+type QueueDropPolicy = 'dropNewest' | 'dropOldest' | 'dropLowestDiamond' | 'collapseDuplicates';
+
+interface QueueLimitSettings {
+  maxItems: number;
+  maxSeconds: number;
+  policy: QueueDropPolicy;
+}
+
+const POLICIES: Array<{ policy: QueueDropPolicy; label: string }> = [
+  { policy: 'dropNewest', label: 'Drop newest' },
+  { policy: 'dropOldest', label: 'Drop oldest' },
+  { policy: 'dropLowestDiamond', label: 'Drop lowest diamond' },
+  { policy: 'collapseDuplicates', label: 'Collapse duplicates' },
+];
+
+export function QueueLimitsCard() {
+  const [settings, setSettings] = useState<QueueLimitSettings | null>(null);
+  const [maxItems, setMaxItems] = useState('');
+  const [maxSeconds, setMaxSeconds] = useState('');
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getQueueLimits();
+        setSettings(loaded);
+        setMaxItems(String(loaded.maxItems));
+        setMaxSeconds(String(loaded.maxSeconds));
+      } catch (error) {
+        console.error('Failed to load queue limits:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const save = async (updated: QueueLimitSettings) => {
+    await window.electronAPI.setQueueLimits(updated);
+    setSettings(updated);
+    setMaxItems(String(updated.maxItems));
+    setMaxSeconds(String(updated.maxSeconds));
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    await save({
+      ...settings,
+      maxItems: Math.max(0, Math.round(Number(maxItems)) || 0),
+      maxSeconds: Math.max(0, Math.round(Number(maxSeconds)) || 0),
+    });
+    toast.success('Queue limits saved');
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <span>🌊</span> Queue Limits
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="queue-max-items" className="text-xs text-muted-foreground">Max audios</Label>
+            <Input id="queue-max-items" type="number" min={0} value={maxItems} onChange={(e) => setMaxItems(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="queue-max-seconds" className="text-xs text-muted-foreground">Max length (s)</Label>
+            <Input id="queue-max-seconds" type="number" min={0} value={maxSeconds} onChange={(e) => setMaxSeconds(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <select
+            value={settings.policy}
+            onChange={(e) => save({ ...settings, policy: e.target.value as QueueDropPolicy })}
+            className="h-9 flex-1 rounded-md border border-input bg-background px-2 text-xs text-foreground"
+          >
+            {POLICIES.map(({ policy, label }) => (
+              <option key={policy} value={policy}>{label}</option>
+            ))}
+          </select>
+          <Button variant="secondary" onClick={handleSave}>Save</Button>
+        </div>
+
+        <p className="text-[10px] text-muted-foreground">
+          0 means no limit. When a new sound would pass a limit, the policy picks what gets dropped; the audio already playing is never cut.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
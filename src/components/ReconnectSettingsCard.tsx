@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+interface ReconnectSettings {
+  enabled: boolean;
+  maxAttempts: number;
+  baseDelaySeconds: number;
+  maxDelaySeconds: number;
+  waitForLive: boolean;
+  liveCheckIntervalSeconds: number;
+}
+
+export function ReconnectSettingsCard() {
+  const [settings, setSettings] = useState<ReconnectSettings | null>(null);
+  const [maxAttempts, setMaxAttempts] = useState('');
+  const [baseDelay, setBaseDelay] = useState('');
+  const [maxDelay, setMaxDelay] = useState('');
+  const [checkInterval, setCheckInterval] = useState('');
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getReconnectSettings();
+        setSettings(loaded);
+        setMaxAttempts(String(loaded.maxAttempts));
+        setBaseDelay(String(loaded.baseDelaySeconds));
+        setMaxDelay(String(loaded.maxDelaySeconds));
+        setCheckInterval(String(loaded.liveCheckIntervalSeconds));
+      } catch (error) {
+        console.error('Failed to load reconnect settings:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const save = async (updated: ReconnectSettings) => {
+    await window.electronAPI.setReconnectSettings(updated);
+    setSettings(updated);
+  };
+
+  const handleSaveTimings = async () => {
+    if (!settings) return;
+
+    const base = Math.max(1, Number(baseDelay) || 1);
+    const updated: ReconnectSettings = {
+      ...settings,
+      maxAttempts: Math.max(0, Math.floor(Number(maxAttempts) || 0)),
+      baseDelaySeconds: base,
+      maxDelaySeconds: Math.max(base, Number(maxDelay) || base),
+      liveCheckIntervalSeconds: Math.max(5, Number(checkInterval) || 30),
+    };
+
+    await save(updated);
+    setMaxAttempts(String(updated.maxAttempts));
+    setBaseDelay(String(updated.baseDelaySeconds));
+    setMaxDelay(String(updated.maxDelaySeconds));
+    setCheckInterval(String(updated.liveCheckIntervalSeconds));
+    toast.success('Reconnect settings saved');
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <span>🔄</span> Auto Reconnect
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="reconnect-enabled" className="text-sm text-muted-foreground">Reconnect when the live drops</Label>
+          <Switch
+            id="reconnect-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => save({ ...settings, enabled: checked })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="reconnect-wait" className="text-sm text-muted-foreground">Wait until the streamer is live</Label>
+          <Switch
+            id="reconnect-wait"
+            checked={settings.waitForLive}
+            onCheckedChange={(checked) => save({ ...settings, waitForLive: checked })}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="reconnect-base" className="text-xs text-muted-foreground">First retry (s)</Label>
+            <Input id="reconnect-base" type="number" min={1} value={baseDelay} onChange={(e) => setBaseDelay(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reconnect-max-delay" className="text-xs text-muted-foreground">Max delay (s)</Label>
+            <Input id="reconnect-max-delay" type="number" min={1} value={maxDelay} onChange={(e) => setMaxDelay(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reconnect-attempts" className="text-xs text-muted-foreground">Max attempts (0 = ∞)</Label>
+            <Input id="reconnect-attempts" type="number" min={0} value={maxAttempts} onChange={(e) => setMaxAttempts(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reconnect-interval" className="text-xs text-muted-foreground">Live check (s)</Label>
+            <Input
+              id="reconnect-interval"
+              type="number"
+              min={5}
+              value={checkInterval}
+              onChange={(e) => setCheckInterval(e.target.value)}
+              disabled={!settings.waitForLive}
+            />
+          </div>
+        </div>
+        <Button variant="secondary" className="w-full" onClick={handleSaveTimings}>Save</Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+
+export type GiftRepeatMode = 'perGift' | 'once' | 'everyN' | 'announce';
+
+export interface GiftRepeatSettings {
+  mode: GiftRepeatMode;
+  maxRepeats: number;
+  everyN: number;
+  spacingMs: number;
+}
+
+export const defaultGiftRepeat: GiftRepeatSettings = {
+  mode: 'perGift',
+  maxRepeats: 20,
+  everyN: 10,
+  spacingMs: 250,
+};
+
+const REPEAT_MODES: Array<{ mode: GiftRepeatMode; label: string }> = [
+  { mode: 'perGift', label: 'Once per gift (up to a cap)' },
+  { mode: 'once', label: 'Once' },
+  { mode: 'everyN', label: 'Once every N gifts' },
+  { mode: 'announce', label: 'Once, announce the count on the overlay' },
+];
+
+// Short summary shown on the mapping card
+export function describeRepeat(repeat: GiftRepeatSettings): string {
+  switch (repeat.mode) {
+    case 'once':
+      return 'Once';
+    case 'announce':
+      return 'Once + count on overlay';
+    case 'everyN':
+      return `Every ${repeat.everyN} gifts · max ${repeat.maxRepeats} · ${repeat.spacingMs}ms`;
+    default:
+      return `Per gift · max ${repeat.maxRepeats} · ${repeat.spacingMs}ms`;
+  }
+}
+
+interface RepeatStrategyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  giftName: string;
+  repeat: GiftRepeatSettings;
+  onSave: (repeat: GiftRepeatSettings) => void;
+}
+
+export function RepeatStrategyDialog({ open, onOpenChange, giftName, repeat, onSave }: RepeatStrategyDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <RepeatStrategyForm giftName={giftName} repeat={repeat} onSave={onSave} onClose={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RepeatStrategyFormProps {
+  giftName: string;
+  repeat: GiftRepeatSettings;
+  onSave: (repeat: GiftRepeatSettings) => void;
+  onClose: () => void;
+}
+
+// The dialog content unmounts while closed, so the fields start from the saved settings on every open
+function RepeatStrategyForm({ giftName, repeat, onSave, onClose }: RepeatStrategyFormProps) {
+  const [mode, setMode] = useState<GiftRepeatMode>(repeat.mode);
+  const [maxRepeats, setMaxRepeats] = useState(String(repeat.maxRepeats));
+  const [everyN, setEveryN] = useState(String(repeat.everyN));
+  const [spacingMs, setSpacingMs] = useState(String(repeat.spacingMs));
+
+  const handleSave = () => {
+    onSave({
+      mode,
+      maxRepeats: Math.max(1, Math.floor(Number(maxRepeats) || defaultGiftRepeat.maxRepeats)),
+      everyN: Math.max(1, Math.floor(Number(everyN) || defaultGiftRepeat.everyN)),
+      spacingMs: Math.max(0, Math.floor(Number(spacingMs) || 0)),
+    });
+    onClose();
+  };
+
+  const playsSeveral = mode === 'perGift' || mode === 'everyN';
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Repeat — {giftName}</DialogTitle>
+        <DialogDescription>
+          How many times the sound plays when several of this gift arrive at once.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="grid gap-4 py-4">
+        <div className="grid grid-cols-4 items-center gap-4">
+          <Label htmlFor="repeat-mode" className="text-right">Play</Label>
+          <select
+            id="repeat-mode"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as GiftRepeatMode)}
+            className="col-span-3 h-9 rounded-md border border-input bg-background px-2 text-sm text-foreground"
+          >
+            {REPEAT_MODES.map(({ mode, label }) => (
+              <option key={mode} value={mode}>{label}</option>
+            ))}
+          </select>
+        </div>
+        {mode === 'everyN' && (
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="repeat-every" className="text-right">Every</Label>
+            <Input id="repeat-every" type="number" min={1} value={everyN} onChange={(e) => setEveryN(e.target.value)} className="col-span-3" />
+          </div>
+        )}
+        <div className="grid grid-cols-4 items-center gap-4">
+          <Label htmlFor="repeat-max" className="text-right">Max plays</Label>
+          <Input id="repeat-max" type="number" min={1} value={maxRepeats} onChange={(e) => setMaxRepeats(e.target.value)} disabled={!playsSeveral} className="col-span-3" />
+        </div>
+        <div className="grid grid-cols-4 items-center gap-4">
+          <Label htmlFor="repeat-spacing" className="text-right">Spacing (ms)</Label>
+          <Input id="repeat-spacing" type="number" min={0} step={50} value={spacingMs} onChange={(e) => setSpacingMs(e.target.value)} disabled={!playsSeveral} className="col-span-3" />
+        </div>
+      </div>
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave}>Save Changes</Button>
+      </DialogFooter>
+    </>
+  );
+}
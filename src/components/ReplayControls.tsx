@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+import { Play, Square } from 'lucide-react';
+
+interface ReplayState {
+  sessionId: string;
+  room: string;
+  speed: number;
+  played: number;
+  total: number;
+  positionMs: number;
+  fromMs: number;
+  toMs: number;
+}
+
+interface ReplayControlsProps {
+  sessionId: string;
+  durationMs: number;
+}
+
+const SPEEDS = [1, 2, 4, 10];
+
+// Accepts "90" (seconds) or "1:30" / "1:02:03"
+function parseOffset(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return 0;
+  if (!/^\d+(:\d{1,2}){0,2}$/.test(trimmed)) return null;
+
+  return trimmed.split(':').reduce((total, part) => total * 60 + Number(part), 0) * 1000;
+}
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export function ReplayControls({ sessionId, durationMs }: ReplayControlsProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [speed, setSpeed] = useState(1);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getReplayState().then(setReplay).catch(() => {});
+
+    const handleProgress = (state: ReplayState | null) => setReplay(state);
+    window.electronAPI.on('replay:progress', handleProgress);
+    return () => window.electronAPI.off('replay:progress', handleProgress);
+  }, []);
+
+  const handleStart = async () => {
+    const fromMs = parseOffset(from);
+    const toMs = parseOffset(to);
+    if (fromMs === null || toMs === null) {
+      toast.error('Use seconds or m:ss for the time range');
+      return;
+    }
+
+    try {
+      const state = await window.electronAPI.startReplay(sessionId, { speed, fromMs, toMs });
+      setReplay(state);
+      toast.success(`Replaying ${state.total} gift events at ${speed}x`);
+    } catch (error) {
+      console.error('Failed to start replay:', error);
+      toast.error(String(error).includes('No gifts') ? 'No gifts in the selected range' : 'Failed to start replay');
+    }
+  };
+
+  const handleStop = async () => {
+    await window.electronAPI.stopReplay();
+    setReplay(null);
+  };
+
+  const isThisSession = replay?.sessionId === sessionId;
+
+  return (
+    <div className="rounded-md border border-border bg-muted/20 p-2 mb-2 space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="text-xs font-medium text-muted-foreground">▶ Replay gifts</span>
+        <Input
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          placeholder="0:00"
+          className="h-7 w-20 text-xs"
+          title="Start offset from the beginning of the session"
+          disabled={!!replay}
+        />
+        <span className="text-xs text-muted-foreground">to</span>
+        <Input
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          placeholder={formatOffset(durationMs)}
+          className="h-7 w-20 text-xs"
+          title="End offset (empty = until the end)"
+          disabled={!!replay}
+        />
+        <div className="flex items-center gap-0.5">
+          {SPEEDS.map((value) => (
+            <Button
+              key={value}
+              variant={speed === value ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setSpeed(value)}
+              disabled={!!replay}
+            >
+              {value}x
+            </Button>
+          ))}
+        </div>
+        {replay ? (
+          <Button variant="destructive" size="sm" className="h-7 text-xs gap-1 ml-auto" onClick={handleStop}>
+            <Square className="w-3 h-3" />
+            Stop
+          </Button>
+        ) : (
+          <Button size="sm" className="h-7 text-xs gap-1 ml-auto" onClick={handleStart}>
+            <Play className="w-3 h-3" />
+            Replay
+          </Button>
+        )}
+      </div>
+
+      {replay && (
+        <div className="space-y-1">
+          <Progress value={(replay.played / replay.total) * 100} className="h-1.5" />
+          <p className="text-[10px] text-muted-foreground">
+            {isThisSession ? '' : `Replaying @${replay.room} · `}
+            {replay.played}/{replay.total} events · at {formatOffset(replay.positionMs)} · {replay.speed}x
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+
+type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'waiting' | 'error';
+
+interface RoomInfo {
+  room: string;
+  roomId: string;
+  title: string;
+  viewerCount: number;
+  nickname: string;
+  profilePictureUrl: string;
+}
+
+interface ReconnectState {
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt: number;
+  waitingForLive: boolean;
+}
+
+export interface RoomState {
+  room: string;
+  status: ConnectionStatus;
+  info: RoomInfo | null;
+  reconnect: ReconnectState | null;
+}
+
+interface MappingProfile {
+  id: string;
+  name: string;
+}
+
+// Short status text shared by the header badges and the room rows
+export function getRoomStatusLabel(room: RoomState, now: number): string {
+  const countdown = room.reconnect ? Math.max(0, Math.ceil((room.reconnect.nextRetryAt - now) / 1000)) : 0;
+
+  switch (room.status) {
+    case 'connected':
+      return '● Connected';
+    case 'connecting':
+      return '◐ Connecting...';
+    case 'reconnecting': {
+      const attempts = room.reconnect && room.reconnect.maxAttempts > 0
+        ? `${room.reconnect.attempt}/${room.reconnect.maxAttempts}`
+        : `${room.reconnect?.attempt ?? ''}`;
+      return `↻ Reconnecting #${attempts} in ${countdown}s`;
+    }
+    case 'waiting':
+      return `◌ Waiting for live · ${countdown}s`;
+    case 'error':
+      return '✕ Failed';
+    default:
+      return '○ Disconnected';
+  }
+}
+
+interface RoomListProps {
+  rooms: RoomState[];
+  profiles: Record<string, MappingProfile>;
+  roomProfiles: Record<string, string>;
+  now: number;
+  onSetProfile: (room: string, profileId: string) => void;
+  onReconnect: (room: string) => void;
+  onRemove: (room: string) => void;
+}
+
+export function RoomList({ rooms, profiles, roomProfiles, now, onSetProfile, onReconnect, onRemove }: RoomListProps) {
+  if (rooms.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {rooms.map((room) => {
+        const isLive = room.status === 'connected' && room.info;
+        const canRetry = room.status === 'error' || room.status === 'disconnected';
+
+        return (
+          <div
+            key={room.room}
+            className={`p-3 rounded-lg space-y-2 ${isLive ? 'bg-green-500/10 border border-green-500/20' : 'bg-muted/50'}`}
+          >
+            <div className="flex items-center gap-3">
+              {room.status === 'connecting' ? (
+                <Skeleton className="h-10 w-10 rounded-full" />
+              ) : (
+                <Avatar size="lg">
+                  <AvatarImage src={room.info?.profilePictureUrl} alt={room.info?.nickname || room.room} />
+                  <AvatarFallback>{(room.info?.nickname || room.room).charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="font-medium text-sm truncate">{room.info?.nickname || `@${room.room}`}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {isLive ? `@${room.room} · ${room.info!.viewerCount} viewers` : getRoomStatusLabel(room, now)}
+                </p>
+              </div>
+              {isLive && (
+                <Badge variant="secondary" className="bg-green-500/20 text-green-400 shrink-0">
+                  LIVE
+                </Badge>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <select
+                value={roomProfiles[room.room] || ''}
+                onChange={(e) => onSetProfile(room.room, e.target.value)}
+                className="h-7 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-xs text-foreground"
+                title="Gift mapping profile for this room"
+              >
+                <option value="">Default mappings</option>
+                {Object.values(profiles).map((profile) => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+              {canRetry && (
+                <Button variant="secondary" size="sm" className="h-7 text-xs" onClick={() => onReconnect(room.room)}>
+                  Retry
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs text-destructive hover:text-destructive hover:bg-destructive/10"
+                onClick={() => onRemove(room.room)}
+              >
+                {room.status === 'connected' ? 'Disconnect' : room.status === 'reconnecting' || room.status === 'waiting' ? 'Cancel' : 'Remove'}
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
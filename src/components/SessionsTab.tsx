@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { History, RefreshCw } from 'lucide-react';
+import { ReplayControls } from './ReplayControls';
+import type { SessionRecord, SessionSummary } from '../../electron/preload';
+
+interface SessionsTabProps {
+  searchTerm: string;
+}
+
+type RecordFilter = 'all' | 'gifts' | 'audio' | 'chat' | 'members' | 'other';
+
+const RECORD_FILTERS: Array<{ filter: RecordFilter; label: string }> = [
+  { filter: 'all', label: 'All' },
+  { filter: 'gifts', label: 'Gifts' },
+  { filter: 'audio', label: 'Audio' },
+  { filter: 'chat', label: 'Chat' },
+  { filter: 'members', label: 'Joins' },
+  { filter: 'other', label: 'Other' },
+];
+
+// Rendering every chat line of a long live would freeze the tab
+const MAX_VISIBLE_RECORDS = 2000;
+
+function matchesFilter(record: SessionRecord, filter: RecordFilter): boolean {
+  switch (filter) {
+    case 'gifts':
+      return record.type === 'giftFinal' || record.type === 'giftStreak';
+    case 'audio':
+      return record.type === 'audio';
+    case 'chat':
+      return record.type === 'chat';
+    case 'members':
+      return record.type === 'member';
+    case 'other':
+      return !['giftFinal', 'giftStreak', 'audio', 'chat', 'member'].includes(record.type);
+    default:
+      // Viewer count updates are noise unless asked for
+      return record.type !== 'roomStats';
+  }
+}
+
+function describeRecord(record: SessionRecord): { icon: string; text: string } {
+  switch (record.type) {
+    case 'giftFinal': {
+      const { nickname, giftName, giftCount, diamondCount } = record.data;
+      return { icon: '🎁', text: `${nickname} sent ${giftName} x${giftCount} (${(diamondCount || 0) * (giftCount || 1)} 💎)` };
+    }
+    case 'giftStreak':
+      return { icon: '🎁', text: `${record.data.nickname} streak ${record.data.giftName} x${record.data.giftCount}` };
+    case 'audio': {
+      const { label, audioName, nickname } = record.data;
+      return { icon: '🔊', text: `${label} → ${audioName}${nickname ? ` (${nickname})` : ''}` };
+    }
+    case 'chat':
+      return { icon: '💬', text: `${record.data.nickname}: ${record.data.message}` };
+    case 'member':
+      return { icon: '👋', text: `${record.data.nickname} joined` };
+    case 'follow':
+      return { icon: '➕', text: `${record.data.nickname} followed` };
+    case 'share':
+      return { icon: '🔁', text: `${record.data.nickname} shared the live` };
+    case 'like':
+      return { icon: '❤️', text: `${record.data.nickname} sent ${record.data.likeCount} likes` };
+    case 'subscribe':
+      return { icon: '⭐', text: `${record.data.nickname} subscribed` };
+    case 'roomStats':
+      return { icon: '👀', text: `${record.data.viewerCount} viewers` };
+    case 'battleStart':
+      return { icon: '⚔️', text: `Battle started${record.data.opponentNickname ? ` against ${record.data.opponentNickname}` : ''}` };
+    case 'battleScore':
+      return { icon: '📊', text: `Battle ${record.data.score} x ${record.data.opponentScore}` };
+    case 'battleEnd':
+      return { icon: '🏁', text: `Battle ${record.data.result} ${record.data.score} x ${record.data.opponentScore}` };
+    case 'connected':
+      return { icon: '✓', text: `Connected to ${record.data.nickname || record.room}` };
+    case 'disconnected':
+      return { icon: '✕', text: 'Disconnected' };
+    case 'error':
+      return { icon: '⚠️', text: record.data.message || 'Error' };
+  }
+  // Files written by another version can hold types this one doesn't know
+  return { icon: '•', text: (record as SessionRecord).type };
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export default function SessionsTab({ searchTerm }: SessionsTabProps) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [openSession, setOpenSession] = useState<{ summary: SessionSummary; records: SessionRecord[] } | null>(null);
+  const [filter, setFilter] = useState<RecordFilter>('all');
+  const [deleteTarget, setDeleteTarget] = useState<SessionSummary | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.listSessions()
+      .then((list) => setSessions(list || []))
+      .catch((error) => console.error('Failed to load sessions:', error));
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      const list = await window.electronAPI.listSessions();
+      setSessions(list || []);
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      toast.error('Failed to load session history');
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    const session = await window.electronAPI.openSession(id);
+    if (!session) {
+      toast.error('Could not open this session');
+      return;
+    }
+    setOpenSession(session);
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return;
+
+    const deleted = await window.electronAPI.deleteSession(deleteTarget.id);
+    if (deleted) {
+      toast.info('Session deleted');
+      if (openSession?.summary.id === deleteTarget.id) {
+        setOpenSession(null);
+      }
+      setSessions((prev) => prev.filter(s => s.id !== deleteTarget.id));
+    } else {
+      toast.error('Failed to delete session');
+    }
+    setDeleteTarget(null);
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredRecords = openSession
+    ? openSession.records.filter(r => matchesFilter(r, filter) && (!term || describeRecord(r).text.toLowerCase().includes(term)))
+    : [];
+
+  return (
+    <div className="flex gap-4 h-[calc(100vh-180px)]">
+      <div className="w-72 shrink-0 flex flex-col">
+        <div className="flex items-center justify-between px-1 pb-2">
+          <p className="text-xs text-muted-foreground">Every live is recorded to disk.</p>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={loadSessions} title="Refresh">
+            <RefreshCw className="w-3 h-3" />
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="space-y-2 p-1 pb-16">
+            {sessions.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-muted-foreground text-center">
+                <History className="w-12 h-12 mb-4 opacity-50" />
+                <p className="text-sm">No sessions recorded yet</p>
+              </div>
+            ) : (
+              sessions.map((session) => (
+                <Card
+                  key={session.id}
+                  className={`gap-1 p-3 cursor-pointer transition-colors hover:bg-muted/50 ${openSession?.summary.id === session.id ? 'border-primary' : ''}`}
+                  onClick={() => handleOpen(session.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold truncate">@{session.room}</span>
+                    {session.recording && (
+                      <Badge variant="secondary" className="bg-red-500/20 text-red-400 shrink-0">REC</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(session.startedAt).toLocaleString()} · {formatDuration(session.endedAt - session.startedAt)}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {session.giftCount} gifts · {session.audioCount} sounds · {formatSize(session.sizeBytes)}
+                  </p>
+                </Card>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        {!openSession ? (
+          <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm">
+            Select a session to see its events
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-2 pb-2">
+              <div className="min-w-0">
+                <h3 className="text-sm font-semibold truncate">
+                  {openSession.summary.nickname || `@${openSession.summary.room}`}
+                  {openSession.summary.title && <span className="text-muted-foreground font-normal"> — {openSession.summary.title}</span>}
+                </h3>
+                <p className="text-[10px] text-muted-foreground">Room ID {openSession.summary.roomId}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs text-destructive hover:text-destructive hover:bg-destructive/10 shrink-0"
+                disabled={openSession.summary.recording}
+                onClick={() => setDeleteTarget(openSession.summary)}
+              >
+                Delete Session
+              </Button>
+            </div>
+
+            <ReplayControls
+              sessionId={openSession.summary.id}
+              durationMs={openSession.summary.endedAt - openSession.summary.startedAt}
+            />
+
+            <div className="flex items-center gap-1 pb-2">
+              {RECORD_FILTERS.map(({ filter: value, label }) => (
+                <Button
+                  key={value}
+                  variant={filter === value ? 'secondary' : 'ghost'}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setFilter(value)}
+                >
+                  {label}
+                </Button>
+              ))}
+              <span className="ml-auto text-[10px] text-muted-foreground">{filteredRecords.length} events</span>
+            </div>
+
+            <ScrollArea className="flex-1 min-h-0 rounded-md border border-border">
+              <div className="p-2 space-y-0.5 font-mono text-xs">
+                {filteredRecords.slice(0, MAX_VISIBLE_RECORDS).map((record, idx) => {
+                  const { icon, text } = describeRecord(record);
+                  return (
+                    <div key={idx} className={`flex gap-2 px-1 py-0.5 rounded ${record.type === 'audio' ? 'bg-green-500/10' : ''}`}>
+                      <span className="text-muted-foreground shrink-0">
+                        {new Date(record.t).toLocaleTimeString('en-US', { hour12: false })}
+                      </span>
+                      <span className="shrink-0">{icon}</span>
+                      <span className="break-all">{text}</span>
+                    </div>
+                  );
+                })}
+                {filteredRecords.length > MAX_VISIBLE_RECORDS && (
+                  <p className="text-center text-muted-foreground py-2">
+                    Showing the first {MAX_VISIBLE_RECORDS} of {filteredRecords.length} events — narrow it down with a filter or search
+                  </p>
+                )}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </div>
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Session</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the recording of @{deleteTarget?.room} from {deleteTarget ? new Date(deleteTarget.startedAt).toLocaleString() : ''}? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { FolderOpen, Play, Square, Upload } from 'lucide-react';
+
+type SimulatedEventType = 'gift' | 'chat' | 'member' | 'like' | 'follow' | 'share' | 'subscribe' | 'viewers'
+  | 'battleStart' | 'battleScore' | 'battleEnd';
+
+interface LoadProfile {
+  id: string;
+  name: string;
+  durationSeconds: number;
+  giftsPerMinute: number;
+  chatsPerMinute: number;
+  joinsPerMinute: number;
+  likesPerMinute: number;
+  followsPerMinute: number;
+  maxGiftCount: number;
+  userPoolSize: number;
+}
+
+interface SimulatorState {
+  mode: 'scenario' | 'load';
+  name: string;
+  startedAt: number;
+  durationMs: number;
+  emitted: number;
+}
+
+const QUICK_EVENTS: Array<{ type: SimulatedEventType; label: string }> = [
+  { type: 'member', label: 'Join' },
+  { type: 'follow', label: 'Follow' },
+  { type: 'like', label: 'Like' },
+  { type: 'share', label: 'Share' },
+  { type: 'subscribe', label: 'Sub' },
+];
+
+const selectClassName = 'h-8 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-xs text-foreground';
+
+export function SimulatorCard() {
+  const [state, setState] = useState<SimulatorState | null>(null);
+  const [scenarios, setScenarios] = useState<string[]>([]);
+  const [selectedScenario, setSelectedScenario] = useState('');
+  const [profiles, setProfiles] = useState<LoadProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [user, setUser] = useState('test_user');
+  const [chatMessage, setChatMessage] = useState('');
+  // Running score of the simulated battle, null when none is open
+  const [battle, setBattle] = useState<{ score: number; opponentScore: number } | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.listScenarios().then((list) => {
+      setScenarios(list);
+      setSelectedScenario(list[0] || '');
+    }).catch((error) => console.error('Failed to load scenarios:', error));
+    window.electronAPI.getLoadProfiles().then((list) => {
+      setProfiles(list);
+      setSelectedProfileId(list[0]?.id || '');
+    }).catch(() => {});
+    window.electronAPI.getSimulatorState().then(setState).catch(() => {});
+
+    const handleProgress = (progress: SimulatorState | null) => setState(progress);
+    window.electronAPI.on('simulator:progress', handleProgress);
+    return () => window.electronAPI.off('simulator:progress', handleProgress);
+  }, []);
+
+  const loadScenarios = async () => {
+    try {
+      const list = await window.electronAPI.listScenarios();
+      setScenarios(list);
+      setSelectedScenario((prev) => (list.includes(prev) ? prev : list[0] || ''));
+    } catch (error) {
+      console.error('Failed to load scenarios:', error);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const name = await window.electronAPI.importScenario();
+      if (!name) return;
+      await loadScenarios();
+      setSelectedScenario(name);
+      toast.success(`Scenario "${name}" imported`);
+    } catch (error) {
+      console.error('Failed to import scenario:', error);
+      toast.error('Invalid scenario file');
+    }
+  };
+
+  const handleRunScenario = async () => {
+    if (!selectedScenario) return;
+    try {
+      await window.electronAPI.runScenario(selectedScenario);
+    } catch (error) {
+      console.error('Failed to run scenario:', error);
+      toast.error(`Could not run "${selectedScenario}"`);
+    }
+  };
+
+  const handleRunLoad = async () => {
+    const profile = profiles.find(p => p.id === selectedProfileId);
+    if (!profile) return;
+    await window.electronAPI.runLoadProfile(profile);
+  };
+
+  const handleQuickEvent = async (type: SimulatedEventType) => {
+    await window.electronAPI.simulateEvent({ type, user: user.trim() || 'test_user', count: type === 'like' ? 15 : undefined });
+  };
+
+  const handleChat = async () => {
+    const message = chatMessage.trim();
+    if (!message) return;
+    await window.electronAPI.simulateEvent({ type: 'chat', user: user.trim() || 'test_user', message });
+    setChatMessage('');
+  };
+
+  const handleBattleStart = async () => {
+    await window.electronAPI.simulateEvent({ type: 'battleStart', opponent: 'rival_host', score: 0, opponentScore: 0 });
+    setBattle({ score: 0, opponentScore: 0 });
+  };
+
+  const handleBattlePoints = async (side: 'score' | 'opponentScore') => {
+    const next = { ...(battle || { score: 0, opponentScore: 0 }) };
+    next[side] += 100;
+    await window.electronAPI.simulateEvent({ type: 'battleScore', ...next });
+    setBattle(next);
+  };
+
+  const handleBattleEnd = async () => {
+    await window.electronAPI.simulateEvent({ type: 'battleEnd', ...(battle || {}) });
+    setBattle(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <span>🤖</span> Simulator
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {state ? (
+          <div className="flex items-center justify-between gap-2 p-2 rounded-md bg-green-500/10 border border-green-500/20">
+            <div className="min-w-0">
+              <p className="text-xs font-medium truncate">{state.name}</p>
+              <p className="text-[10px] text-muted-foreground">{state.emitted} events sent to @simulator</p>
+            </div>
+            <Button variant="destructive" size="sm" className="h-7 text-xs gap-1 shrink-0" onClick={() => window.electronAPI.stopSimulator()}>
+              <Square className="w-3 h-3" />
+              Stop
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Scenario</span>
+              <div className="flex items-center gap-1">
+                <select value={selectedScenario} onChange={(e) => setSelectedScenario(e.target.value)} className={selectClassName}>
+                  {scenarios.length === 0 && <option value="">No scenarios</option>}
+                  {scenarios.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+                <Button variant="secondary" size="sm" className="h-8 w-8 p-0" onClick={handleRunScenario} disabled={!selectedScenario} title="Run scenario">
+                  <Play className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={handleImport} title="Import scenario file">
+                  <Upload className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => window.electronAPI.openScenariosFolder()} title="Open scenarios folder">
+                  <FolderOpen className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">Random load</span>
+              <div className="flex items-center gap-1">
+                <select value={selectedProfileId} onChange={(e) => setSelectedProfileId(e.target.value)} className={selectClassName}>
+                  {profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name} · {profile.giftsPerMinute} gifts/min{profile.durationSeconds > 0 ? ` · ${profile.durationSeconds}s` : ''}
+                    </option>
+                  ))}
+                </select>
+                <Button variant="secondary" size="sm" className="h-8 w-8 p-0" onClick={handleRunLoad} disabled={!selectedProfileId} title="Run load profile">
+                  <Play className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">Single events as</span>
+          <Input value={user} onChange={(e) => setUser(e.target.value)} placeholder="username" className="h-8 text-xs" />
+          <div className="flex flex-wrap gap-1">
+            {QUICK_EVENTS.map(({ type, label }) => (
+              <Button key={type} variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => handleQuickEvent(type)}>
+                {label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <Input
+              value={chatMessage}
+              onChange={(e) => setChatMessage(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleChat()}
+              placeholder="Chat message or !command"
+              className="h-8 text-xs"
+            />
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={handleChat}>Send</Button>
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <span className="text-xs text-muted-foreground">
+            Battle{battle ? ` · ${battle.score} x ${battle.opponentScore}` : ''}
+          </span>
+          <div className="flex flex-wrap gap-1">
+            <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={handleBattleStart}>Start</Button>
+            <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => handleBattlePoints('score')}>+100 us</Button>
+            <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={() => handleBattlePoints('opponentScore')}>+100 them</Button>
+            <Button variant="outline" size="sm" className="h-6 px-2 text-xs" onClick={handleBattleEnd} disabled={!battle}>End</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { toast } from 'sonner';
+import { Volume2 } from 'lucide-react';
+
+export interface TtsVoiceSettings {
+  voice: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+interface TtsVoiceFieldsProps {
+  value: TtsVoiceSettings;
+  onChange: (voice: TtsVoiceSettings) => void;
+  testText: string;
+}
+
+// Voices come from this window's speech engine; OBS usually offers the same system voices
+function useSpeechVoices(): string[] {
+  const [voices, setVoices] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+
+    const load = () => setVoices(speechSynthesis.getVoices().map(v => v.name));
+    load();
+    speechSynthesis.addEventListener('voiceschanged', load);
+    return () => speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  return voices;
+}
+
+export function TtsVoiceFields({ value, onChange, testText }: TtsVoiceFieldsProps) {
+  const voices = useSpeechVoices();
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const handleTest = async () => {
+    const queued = await window.electronAPI.testTts(testText, draft);
+    if (queued) {
+      toast.success('Test queued on the overlay');
+    } else {
+      toast.error('Test was dropped by the queue limits');
+    }
+  };
+
+  const sliders: Array<{ key: 'rate' | 'pitch' | 'volume'; label: string; min: number; max: number; step: number; format: (v: number) => string }> = [
+    { key: 'rate', label: 'Rate', min: 0.5, max: 2, step: 0.1, format: v => `${v.toFixed(1)}x` },
+    { key: 'pitch', label: 'Pitch', min: 0, max: 2, step: 0.1, format: v => v.toFixed(1) },
+    { key: 'volume', label: 'Volume', min: 0, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={draft.voice}
+          onChange={(e) => onChange({ ...draft, voice: e.target.value })}
+          className="h-8 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-xs text-foreground"
+        >
+          <option value="">Default voice</option>
+          {draft.voice && !voices.includes(draft.voice) && <option value={draft.voice}>{draft.voice}</option>}
+          {voices.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" className="h-8 text-xs gap-1 shrink-0" onClick={handleTest} disabled={!testText.trim()}>
+          <Volume2 className="w-3 h-3" />
+          Test
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {sliders.map(({ key, label, min, max, step, format }) => (
+          <div key={key} className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground flex justify-between">
+              <span>{label}</span>
+              <span>{format(draft[key])}</span>
+            </Label>
+            <Slider
+              value={[draft[key]]}
+              min={min}
+              max={max}
+              step={step}
+              onValueChange={(v) => setDraft({ ...draft, [key]: v[0] })}
+              onValueCommit={(v) => onChange({ ...draft, [key]: v[0] })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { toast } from 'sonner';
+import { Ban, Plus, ShieldCheck, X } from 'lucide-react';
+import { WordFilterCard } from './WordFilterCard';
+
+type UserAccessList = 'block' | 'allow';
+
+export interface UserAccessEntry {
+  id: string;
+  userKey: string;
+  nickname: string;
+  list: UserAccessList;
+  addedAt: number;
+}
+
+interface UserAccessSettings {
+  allowlistOnly: boolean;
+  allowModerators: boolean;
+}
+
+interface UserAccessTabProps {
+  searchTerm: string;
+}
+
+const selectClassName = 'h-8 rounded-md border border-input bg-background px-2 text-xs text-foreground';
+
+// Adds a user to a list, moving them if they were already on the other one
+export async function addUserToAccessList(user: { userId: string; username: string; nickname: string }, list: UserAccessList): Promise<void> {
+  const userKey = (user.username || user.userId).trim().replace(/^@/, '');
+  const entries = await window.electronAPI.getUserAccessList();
+  const existing = Object.values(entries).find(
+    e => e.userKey.toLowerCase() === userKey.toLowerCase() || (user.userId && e.userKey === user.userId)
+  );
+
+  await window.electronAPI.setUserAccessEntry({
+    id: existing?.id || crypto.randomUUID(),
+    userKey,
+    nickname: user.nickname || existing?.nickname || '',
+    list,
+    addedAt: Date.now(),
+  });
+}
+
+export default function UserAccessTab({ searchTerm }: UserAccessTabProps) {
+  const [entries, setEntries] = useState<Record<string, UserAccessEntry>>({});
+  const [settings, setSettings] = useState<UserAccessSettings | null>(null);
+  const [userKey, setUserKey] = useState('');
+  const [list, setList] = useState<UserAccessList>('block');
+
+  useEffect(() => {
+    window.electronAPI.getUserAccessList()
+      .then((loaded) => setEntries(loaded || {}))
+      .catch((error) => console.error('Failed to load user access list:', error));
+    window.electronAPI.getUserAccessSettings().then(setSettings).catch(() => {});
+  }, []);
+
+  const loadEntries = async () => {
+    try {
+      const loaded = await window.electronAPI.getUserAccessList();
+      setEntries(loaded || {});
+    } catch (error) {
+      console.error('Failed to load user access list:', error);
+      toast.error('Failed to load user access list');
+    }
+  };
+
+  const saveSettings = async (updated: UserAccessSettings) => {
+    await window.electronAPI.setUserAccessSettings(updated);
+    setSettings(updated);
+  };
+
+  const handleAdd = async () => {
+    const key = userKey.trim().replace(/^@/, '');
+    if (!key) {
+      toast.error('Enter a username or user ID');
+      return;
+    }
+
+    await addUserToAccessList({ userId: /^\d+$/.test(key) ? key : '', username: key, nickname: '' }, list);
+    await loadEntries();
+    setUserKey('');
+    toast.success(list === 'block' ? `Blocked @${key}` : `Allowed @${key}`);
+  };
+
+  const handleRemove = async (entry: UserAccessEntry) => {
+    await window.electronAPI.removeUserAccessEntry(entry.id);
+    setEntries((prev) => {
+      const copy = { ...prev };
+      delete copy[entry.id];
+      return copy;
+    });
+    toast.info(`Removed @${entry.userKey}`);
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filtered = Object.values(entries)
+    .filter(e => !term || e.userKey.toLowerCase().includes(term) || e.nickname.toLowerCase().includes(term))
+    .sort((a, b) => b.addedAt - a.addedAt);
+
+  const renderList = (target: UserAccessList) => {
+    const items = filtered.filter(e => e.list === target);
+    const Icon = target === 'block' ? Ban : ShieldCheck;
+
+    return (
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="flex items-center gap-2 px-1 pb-2">
+          <Icon className={`w-4 h-4 ${target === 'block' ? 'text-red-400' : 'text-green-400'}`} />
+          <h3 className="text-sm font-semibold">{target === 'block' ? 'Blocked' : 'Allowed'}</h3>
+          <span className="text-xs text-muted-foreground">{items.length}</span>
+        </div>
+        <ScrollArea className="flex-1 min-h-0">
+          <div className="space-y-1 p-1 pb-16">
+            {items.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center py-8">
+                {target === 'block' ? 'Nobody is blocked' : 'Nobody is on the allowlist'}
+              </p>
+            ) : (
+              items.map((entry) => (
+                <Card key={entry.id} className="flex-row items-center gap-2 px-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">@{entry.userKey}</p>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {entry.nickname ? `${entry.nickname} · ` : ''}added {new Date(entry.addedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0 shrink-0" onClick={() => handleRemove(entry)} title="Remove">
+                    <X className="w-3 h-3" />
+                  </Button>
+                </Card>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3 h-[calc(100vh-180px)]">
+      <div className="flex flex-wrap items-center gap-4 px-1">
+        {settings && (
+          <>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="access-allowlist-only"
+                checked={settings.allowlistOnly}
+                onCheckedChange={(checked) => saveSettings({ ...settings, allowlistOnly: checked })}
+              />
+              <Label htmlFor="access-allowlist-only" className="text-xs">Only allowed users trigger sounds</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="access-moderators"
+                checked={settings.allowModerators}
+                onCheckedChange={(checked) => saveSettings({ ...settings, allowModerators: checked })}
+                disabled={!settings.allowlistOnly}
+              />
+              <Label htmlFor="access-moderators" className="text-xs">Moderators always allowed</Label>
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center gap-1 ml-auto">
+          <Input
+            value={userKey}
+            onChange={(e) => setUserKey(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="username or user ID"
+            className="h-8 w-48 text-xs"
+          />
+          <select value={list} onChange={(e) => setList(e.target.value as UserAccessList)} className={selectClassName}>
+            <option value="block">Block</option>
+            <option value="allow">Allow</option>
+          </select>
+          <Button size="sm" className="h-8 text-xs gap-1" onClick={handleAdd}>
+            <Plus className="w-3 h-3" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground px-1">
+        Applies to gift sounds, chat commands and VIP entrances. Blocked users always stay silent; hover an entry in the Event Log to add its user here.
+      </p>
+
+      <div className="flex gap-4 flex-1 min-h-0">
+        {renderList('block')}
+        {renderList('allow')}
+        <ScrollArea className="w-80 shrink-0">
+          <div className="pb-16">
+            <WordFilterCard />
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
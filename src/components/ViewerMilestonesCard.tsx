@@ -0,0 +1,162 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { AudioSelectionDialog } from './AudioSelectionDialog';
+import { PlaylistChips } from './PlaylistChips';
+
+interface AudioFileEntry {
+  path: string;
+  volume: number;
+}
+
+interface ViewerMilestoneSettings {
+  enabled: boolean;
+  thresholds: number[];
+  oncePerSession: boolean;
+  hysteresisPercent: number;
+  audioFiles: AudioFileEntry[];
+  message: string;
+}
+
+interface ViewerMilestonesCardProps {
+  audioFileNames: Record<string, string>;
+}
+
+export function ViewerMilestonesCard({ audioFileNames }: ViewerMilestonesCardProps) {
+  const [settings, setSettings] = useState<ViewerMilestoneSettings | null>(null);
+  const [thresholds, setThresholds] = useState('');
+  const [hysteresis, setHysteresis] = useState('');
+  const [message, setMessage] = useState('');
+  const [audioDialogOpen, setAudioDialogOpen] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getViewerMilestones();
+        setSettings(loaded);
+        setThresholds(loaded.thresholds.join(', '));
+        setHysteresis(String(loaded.hysteresisPercent));
+        setMessage(loaded.message);
+      } catch (error) {
+        console.error('Failed to load viewer milestones:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const save = async (updated: ViewerMilestoneSettings) => {
+    await window.electronAPI.setViewerMilestones(updated);
+    setSettings(updated);
+  };
+
+  const handleSaveRules = async () => {
+    if (!settings) return;
+
+    const parsedThresholds = thresholds
+      .split(',')
+      .map(t => Number(t.trim().replace(/k$/i, '000')))
+      .filter(t => Number.isFinite(t) && t > 0)
+      .sort((a, b) => a - b);
+
+    await save({
+      ...settings,
+      thresholds: parsedThresholds,
+      hysteresisPercent: Math.min(100, Math.max(0, Number(hysteresis) || 0)),
+      message: message.trim() || '{count} viewers!',
+    });
+    setThresholds(parsedThresholds.join(', '));
+    toast.success('Viewer milestones saved');
+  };
+
+  const handleAudiosSaved = async (paths: string[]) => {
+    if (!settings) return;
+    const audioFiles = paths.map(path => {
+      const entry = settings.audioFiles.find(e => e.path === path);
+      return entry || { path, volume: 1.0 };
+    });
+    await save({ ...settings, audioFiles });
+    toast.success('Playlist updated');
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card className={`gap-0 py-0 overflow-hidden border-l-4 ${settings.enabled ? 'border-l-pink-500' : 'border-l-muted'}`}>
+      <div className="flex items-center justify-between p-3 bg-muted/30">
+        <div className="flex items-center gap-2 min-w-0">
+          <span className="text-xl">👀</span>
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold truncate">Viewer Milestones</h3>
+            <p className="text-[10px] text-muted-foreground truncate">Celebrate when the viewer count crosses a threshold</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch
+            checked={settings.enabled}
+            onCheckedChange={(checked) => save({ ...settings, enabled: checked })}
+          />
+          <Badge variant={settings.enabled ? 'default' : 'secondary'} className={settings.enabled ? 'bg-green-600' : ''}>
+            {settings.enabled ? 'On' : 'Off'}
+          </Badge>
+        </div>
+      </div>
+
+      <CardContent className="p-3 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="viewers-thresholds" className="text-xs text-muted-foreground">Thresholds</Label>
+            <Input id="viewers-thresholds" value={thresholds} onChange={(e) => setThresholds(e.target.value)} placeholder="100, 500, 1k" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="viewers-hysteresis" className="text-xs text-muted-foreground">Re-arm below (%)</Label>
+            <Input
+              id="viewers-hysteresis"
+              type="number"
+              min={0}
+              max={100}
+              value={hysteresis}
+              onChange={(e) => setHysteresis(e.target.value)}
+              disabled={settings.oncePerSession}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="viewers-once" className="text-xs text-muted-foreground">Only once per session</Label>
+          <Switch
+            id="viewers-once"
+            checked={settings.oncePerSession}
+            onCheckedChange={(checked) => save({ ...settings, oncePerSession: checked })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="viewers-message" className="text-xs text-muted-foreground">Overlay message ({'{count}'} = threshold)</Label>
+          <div className="flex gap-2">
+            <Input id="viewers-message" value={message} onChange={(e) => setMessage(e.target.value)} className="flex-1" />
+            <Button variant="secondary" onClick={handleSaveRules}>Save</Button>
+          </div>
+        </div>
+
+        <PlaylistChips
+          audioFiles={settings.audioFiles}
+          audioFileNames={audioFileNames}
+          onAdd={() => setAudioDialogOpen(true)}
+          onRemove={(path) => save({ ...settings, audioFiles: settings.audioFiles.filter(e => e.path !== path) })}
+        />
+      </CardContent>
+
+      <AudioSelectionDialog
+        open={audioDialogOpen}
+        onOpenChange={setAudioDialogOpen}
+        onSave={handleAudiosSaved}
+        currentPaths={settings.audioFiles.map(e => e.path)}
+        description="Select audio files to play when a viewer milestone is reached."
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,293 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Crown, Plus } from 'lucide-react';
+import { AudioSelectionDialog } from './AudioSelectionDialog';
+import { PlaylistChips } from './PlaylistChips';
+
+interface AudioFileEntry {
+  path: string;
+  volume: number;
+}
+
+interface VipEntrance {
+  id: string;
+  userKey: string;
+  audioFiles: AudioFileEntry[];
+  enabled: boolean;
+  showBanner: boolean;
+  bannerMessage: string;
+}
+
+interface VipEntrancesTabProps {
+  audioFileNames: Record<string, string>;
+  searchTerm: string;
+}
+
+interface EntranceForm {
+  userKey: string;
+  showBanner: boolean;
+  bannerMessage: string;
+}
+
+const emptyForm: EntranceForm = {
+  userKey: '',
+  showBanner: true,
+  bannerMessage: '👑 {nickname} has arrived!',
+};
+
+export default function VipEntrancesTab({ audioFileNames, searchTerm }: VipEntrancesTabProps) {
+  const [entrances, setEntrances] = useState<Record<string, VipEntrance>>({});
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<EntranceForm>(emptyForm);
+
+  const [audioDialogOpen, setAudioDialogOpen] = useState(false);
+  const [playlistEntranceId, setPlaylistEntranceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadEntrances = async () => {
+      try {
+        const list = await window.electronAPI.getVipEntrances();
+        setEntrances(list || {});
+      } catch (error) {
+        console.error('Failed to load VIP entrances:', error);
+        toast.error('Failed to load VIP entrances');
+      }
+    };
+
+    loadEntrances();
+  }, []);
+
+  const saveEntrance = async (entrance: VipEntrance) => {
+    await window.electronAPI.setVipEntrance(entrance);
+    setEntrances((prev) => ({ ...prev, [entrance.id]: entrance }));
+  };
+
+  const openEditor = (entrance?: VipEntrance) => {
+    if (entrance) {
+      setEditingId(entrance.id);
+      setForm({
+        userKey: entrance.userKey,
+        showBanner: entrance.showBanner,
+        bannerMessage: entrance.bannerMessage,
+      });
+    } else {
+      setEditingId(null);
+      setForm(emptyForm);
+    }
+    setEditorOpen(true);
+  };
+
+  const handleSaveEditor = async () => {
+    const userKey = form.userKey.trim().replace(/^@/, '');
+    if (!userKey) {
+      toast.error('Please enter a username or user ID');
+      return;
+    }
+
+    const duplicate = Object.values(entrances).find(
+      e => e.id !== editingId && e.userKey.toLowerCase() === userKey.toLowerCase()
+    );
+    if (duplicate) {
+      toast.error(`@${userKey} already has an entrance sound`);
+      return;
+    }
+
+    const existing = editingId ? entrances[editingId] : undefined;
+    const entrance: VipEntrance = {
+      id: existing?.id || crypto.randomUUID(),
+      userKey,
+      audioFiles: existing?.audioFiles || [],
+      enabled: existing?.enabled !== undefined ? existing.enabled : true,
+      showBanner: form.showBanner,
+      bannerMessage: form.bannerMessage.trim(),
+    };
+
+    try {
+      await saveEntrance(entrance);
+      toast.success(existing ? `Updated @${userKey}` : `Added @${userKey}`);
+      setEditorOpen(false);
+    } catch (error) {
+      console.error('Failed to save VIP entrance:', error);
+      toast.error('Failed to save VIP entrance');
+    }
+  };
+
+  const handleRemove = async (entrance: VipEntrance) => {
+    await window.electronAPI.removeVipEntrance(entrance.id);
+    setEntrances((prev) => {
+      const copy = { ...prev };
+      delete copy[entrance.id];
+      return copy;
+    });
+    toast.info(`Removed @${entrance.userKey}`);
+  };
+
+  const openPlaylist = (entranceId: string) => {
+    setPlaylistEntranceId(entranceId);
+    setAudioDialogOpen(true);
+  };
+
+  const handleAudiosSaved = async (paths: string[]) => {
+    const existing = playlistEntranceId ? entrances[playlistEntranceId] : undefined;
+    if (!existing) return;
+
+    const audioFiles = paths.map(path => {
+      const entry = existing.audioFiles.find(e => e.path === path);
+      return entry || { path, volume: 1.0 };
+    });
+
+    await saveEntrance({ ...existing, audioFiles });
+    toast.success(`Playlist updated for @${existing.userKey}`);
+  };
+
+  const handleRemoveAudioFile = async (entrance: VipEntrance, pathToRemove: string) => {
+    await saveEntrance({ ...entrance, audioFiles: entrance.audioFiles.filter(e => e.path !== pathToRemove) });
+    toast.success('Audio removed from playlist');
+  };
+
+  const filteredEntrances = Object.values(entrances).filter(
+    (e) => e.userKey.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-1 pb-2">
+        <p className="text-xs text-muted-foreground">
+          Regulars get a signature sound the first time they join each live.
+        </p>
+        <Button size="sm" className="h-7 text-xs gap-1" onClick={() => openEditor()}>
+          <Plus className="w-3 h-3" />
+          Add Viewer
+        </Button>
+      </div>
+
+      <ScrollArea className="h-[calc(100vh-220px)]">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-1 pb-16">
+          {filteredEntrances.length === 0 ? (
+            <div className="col-span-full flex flex-col items-center justify-center py-12 text-muted-foreground">
+              <Crown className="w-12 h-12 mb-4 opacity-50" />
+              <p className="text-lg">No VIP entrances configured yet</p>
+              <p className="text-sm">Add a viewer by username and give them an entrance sound</p>
+            </div>
+          ) : (
+            filteredEntrances.map((entrance) => (
+              <Card key={entrance.id} className={`gap-0 py-0 overflow-hidden border-l-4 ${entrance.audioFiles.length > 0 ? 'border-l-yellow-500' : 'border-l-muted'}`}>
+                <div className="flex items-center justify-between p-3 bg-muted/30">
+                  <div className="min-w-0">
+                    <h3 className="text-sm font-semibold truncate">@{entrance.userKey}</h3>
+                    <p className="text-[10px] text-muted-foreground truncate">
+                      {entrance.showBanner ? entrance.bannerMessage || 'Banner without text' : 'No overlay banner'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={entrance.enabled}
+                      onCheckedChange={(checked) => saveEntrance({ ...entrance, enabled: checked })}
+                    />
+                    <Badge variant={entrance.enabled ? 'default' : 'secondary'} className={entrance.enabled ? 'bg-green-600' : ''}>
+                      {entrance.enabled ? 'On' : 'Off'}
+                    </Badge>
+                  </div>
+                </div>
+
+                <CardContent className="p-3">
+                  <PlaylistChips
+                    audioFiles={entrance.audioFiles}
+                    audioFileNames={audioFileNames}
+                    onAdd={() => openPlaylist(entrance.id)}
+                    onRemove={(path) => handleRemoveAudioFile(entrance, path)}
+                  />
+                </CardContent>
+
+                <div className="flex justify-end gap-1 p-2 border-t border-border bg-muted/20">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-xs"
+                    onClick={() => openEditor(entrance)}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-xs text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => handleRemove(entrance)}
+                  >
+                    Remove Viewer
+                  </Button>
+                </div>
+              </Card>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit VIP Entrance' : 'New VIP Entrance'}</DialogTitle>
+            <DialogDescription>
+              Match a viewer by TikTok username (without @) or numeric user ID.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="vip-user" className="text-right">Viewer</Label>
+              <Input
+                id="vip-user"
+                value={form.userKey}
+                onChange={(e) => setForm({ ...form, userKey: e.target.value })}
+                placeholder="username"
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="vip-banner" className="text-right">Banner</Label>
+              <div className="col-span-3 flex items-center gap-2">
+                <Switch
+                  id="vip-banner"
+                  checked={form.showBanner}
+                  onCheckedChange={(checked) => setForm({ ...form, showBanner: checked })}
+                />
+                <span className="text-xs text-muted-foreground">Show a banner on the overlay</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="vip-message" className="text-right">Message</Label>
+              <Input
+                id="vip-message"
+                value={form.bannerMessage}
+                onChange={(e) => setForm({ ...form, bannerMessage: e.target.value })}
+                disabled={!form.showBanner}
+                className="col-span-3"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveEditor}>Save Changes</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AudioSelectionDialog
+        open={audioDialogOpen}
+        onOpenChange={setAudioDialogOpen}
+        onSave={handleAudiosSaved}
+        currentPaths={playlistEntranceId ? (entrances[playlistEntranceId]?.audioFiles.map(e => e.path) || []) : []}
+        description="Select audio files to play when this viewer joins."
+      />
+    </div>
+  );
+}
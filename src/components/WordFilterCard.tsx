@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+
+type WordFilterAction = 'replace' | 'drop';
+
+interface WordFilterSettings {
+  enabled: boolean;
+  words: string[];
+  action: WordFilterAction;
+  replacement: string;
+  normalizeLeetspeak: boolean;
+}
+
+interface WordFilterResult {
+  text: string;
+  matches: string[];
+  blocked: boolean;
+}
+
+const parseWords = (text: string) => text.split('\n').map(w => w.trim()).filter(Boolean);
+
+export function WordFilterCard() {
+  const [settings, setSettings] = useState<WordFilterSettings | null>(null);
+  const [words, setWords] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [testText, setTestText] = useState('');
+  const [testResult, setTestResult] = useState<WordFilterResult | null>(null);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        const loaded = await window.electronAPI.getWordFilter();
+        setSettings(loaded);
+        setWords(loaded.words.join('\n'));
+        setReplacement(loaded.replacement);
+      } catch (error) {
+        console.error('Failed to load word filter:', error);
+      }
+    };
+
+    loadSettings();
+  }, []);
+
+  const save = async (updated: WordFilterSettings) => {
+    await window.electronAPI.setWordFilter(updated);
+    setSettings(updated);
+  };
+
+  // Unsaved edits to the list count, so a pattern can be tried before saving it
+  const draft = (): WordFilterSettings | null =>
+    settings && { ...settings, words: parseWords(words), replacement };
+
+  const handleSave = async () => {
+    const updated = draft();
+    if (!updated) return;
+
+    await save(updated);
+    setWords(updated.words.join('\n'));
+    toast.success('Word filter saved');
+  };
+
+  const handleTest = async () => {
+    const current = draft();
+    if (!current || !testText.trim()) return;
+    setTestResult(await window.electronAPI.testWordFilter(testText, current));
+  };
+
+  if (!settings) return null;
+
+  return (
+    <Card className="gap-3">
+      <CardHeader className="pb-0">
+        <CardTitle className="text-base flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2"><span>🧼</span> Word Filter</span>
+          <Switch checked={settings.enabled} onCheckedChange={(checked) => save({ ...settings, enabled: checked })} />
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-[10px] text-muted-foreground">
+          Applies to nicknames and chat before they are spoken or shown on the overlay. One entry per line: a word, a word with
+          {' '}<code>*</code> wildcards, or a <code>/regex/</code>.
+        </p>
+
+        <textarea
+          value={words}
+          onChange={(e) => setWords(e.target.value)}
+          rows={6}
+          placeholder={'badword\nspam*\n/fr[e3]+\\s*coins/'}
+          className="w-full rounded-md border border-input bg-background px-3 py-2 text-xs font-mono text-foreground resize-none"
+        />
+
+        <div className="flex items-center gap-2">
+          <Switch
+            id="word-filter-leet"
+            checked={settings.normalizeLeetspeak}
+            onCheckedChange={(checked) => save({ ...settings, normalizeLeetspeak: checked })}
+          />
+          <Label htmlFor="word-filter-leet" className="text-xs">Catch leetspeak (h3ll0 → hello)</Label>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-muted-foreground mr-1">On match:</span>
+          {([['replace', 'Replace'], ['drop', 'Drop text']] as const).map(([action, label]) => (
+            <Button
+              key={action}
+              variant={settings.action === action ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => save({ ...settings, action })}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder="***"
+            className="h-8 text-xs"
+            title="Replacement text"
+          />
+          <Button variant="secondary" size="sm" className="h-8" onClick={handleSave}>Save</Button>
+        </div>
+
+        <div className="space-y-1 pt-2 border-t border-border">
+          <Label htmlFor="word-filter-test" className="text-xs text-muted-foreground">Test a phrase</Label>
+          <div className="flex gap-2">
+            <Input
+              id="word-filter-test"
+              value={testText}
+              onChange={(e) => { setTestText(e.target.value); setTestResult(null); }}
+              onKeyDown={(e) => e.key === 'Enter' && handleTest()}
+              className="h-8 text-xs"
+            />
+            <Button variant="outline" size="sm" className="h-8" onClick={handleTest} disabled={!testText.trim()}>Test</Button>
+          </div>
+          {testResult && (
+            <p className={`text-xs ${testResult.matches.length > 0 ? 'text-amber-400' : 'text-green-400'}`}>
+              {testResult.matches.length === 0
+                ? 'No banned words found'
+                : testResult.blocked
+                  ? `Dropped (matched ${testResult.matches.join(', ')})`
+                  : `→ ${testResult.text} (matched ${testResult.matches.join(', ')})`}
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -43,9 +43,6 @@ interface ElectronAPI {
   getOverlayConnectedCount: () => Promise<number>;
 
   
-  triggerTestGift: (giftName: string) => Promise<boolean>;
-
-  
   on: (channel: string, callback: (...args: any[]) => void) => void;
   off: (channel: string, callback: (...args: any[]) => void) => void;
 }